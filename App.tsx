@@ -1,35 +1,98 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import InteractiveGrid from './components/InteractiveGrid/index';
 import { DEFAULT_PROJECTS } from './constants';
+import { ProjectSource, InteractiveGridHandle, useGridTheme } from './components/InteractiveGrid/index';
+
+const FILTERS = ["branding", "motion", "product"];
+
+// A CMS-style feed served by Vite from /public, with its own field names.
+// DEFAULT_PROJECTS is shown while it loads, or if it can't be reached.
+const PROJECT_SOURCE: ProjectSource = {
+  url: "/projects.json",
+  itemsPath: "items",
+  fields: {
+    title: "name",
+    image: "cover.url",
+    year: "released",
+    href: "url",
+    video: "preview",
+    category: "kind",
+    tags: "labels",
+  },
+};
+
+// Overrides for the grid's AnimationConfig. Defined outside the component so it isn't re-created on every render.
+const GRID_ANIMATION = {
+  defaultZoomLevel: 1.0,
+  zoomedInLevel: 0.3,
+};
+
+const PAGE_TITLE = document.title;
 
 function App() {
-  const borderColor = "rgba(40, 40, 40, 0.7)";
+  // Follows the system's light/dark setting. The page uses the same colors as the grid.
+  const theme = useGridTheme("auto");
+  const [activeFilter, setActiveFilter] = useState<string | null>(null);
+  const gridRef = useRef<InteractiveGridHandle>(null);
 
   return (
-    <main style={{ fontFamily: "'IBM Plex Mono', monospace" }} className="h-screen w-screen bg-[#0a0a0a] text-white relative overflow-hidden">
+    <main
+      style={{ fontFamily: "'IBM Plex Mono', monospace", backgroundColor: theme.background, color: theme.accent }}
+      className="h-screen w-screen relative overflow-hidden transition-colors duration-500"
+    >
       <div 
-        className="absolute top-8 left-8 z-10 p-4 bg-black/20 rounded-lg backdrop-blur-sm border"
-        style={{ borderColor }}
+        className="absolute top-8 left-8 z-10 p-4 rounded-lg backdrop-blur-sm border"
+        style={{ borderColor: theme.border, backgroundColor: theme.overlay }}
       >
         <h1 className="text-2xl md:text-3xl font-bold tracking-wider">PROJECTS</h1>
         <p className="text-gray-400 text-sm md:text-base mt-1">An interactive portfolio showcase</p>
+        <div className="flex gap-3 mt-3 text-xs md:text-sm uppercase tracking-wider">
+          {[null, ...FILTERS].map((filter) => (
+            <button
+              key={filter ?? "all"}
+              onClick={() => setActiveFilter(filter)}
+              className={activeFilter === filter ? "" : "text-gray-500 hover:text-gray-400"}
+            >
+              {filter ?? "all"}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              // The grid knows how many projects the source loaded, which may differ from the fallback list.
+              const projectCount = gridRef.current?.getState().projectCount ?? 0;
+              if (projectCount > 0) gridRef.current?.zoomTo(Math.floor(Math.random() * projectCount));
+            }}
+            className="text-gray-500 hover:text-gray-400"
+          >
+            random
+          </button>
+        </div>
       </div>
       
       <InteractiveGrid
+        ref={gridRef}
         // Data for the grid
         projects={DEFAULT_PROJECTS}
+        source={PROJECT_SOURCE}
+        activeFilter={activeFilter}
+        urlSync="hash"
+        history="zoom"
+        showMinimap
 
         // --- STYLING PROPS ---
         fontFamily="IBM Plex Mono, monospace"
         fontWeight="bold"
-        backgroundColor="#0a0a0a"
-        borderColor={borderColor}
-        hoverColor="rgba(255, 255, 255, 0.05)"
-        textColor="#808080"
+        theme={theme}
         
         // --- BEHAVIOR & APPEARANCE PROPS ---
         cellSize={0.75}
         distortionStrength={1.0}
+        animation={GRID_ANIMATION}
+
+        // --- EVENTS ---
+        onZoomStart={({ project }) => { document.title = `${project.title} — ${PAGE_TITLE}`; }}
+        onNavigate={({ project }) => { document.title = `${project.title} — ${PAGE_TITLE}`; }}
+        onUnzoom={() => { document.title = PAGE_TITLE; }}
 
         // --- MOBILE OPTIMIZATIONS ---
         disableMobileHover={false}
@@ -40,11 +103,13 @@ function App() {
       />
 
       <div 
-        className="absolute bottom-8 right-8 z-10 text-right text-gray-500 text-xs md:text-sm p-4 bg-black/20 rounded-lg backdrop-blur-sm border"
-        style={{ borderColor }}
+        className="absolute bottom-8 right-8 z-10 text-right text-gray-500 text-xs md:text-sm p-4 rounded-lg backdrop-blur-sm border"
+        style={{ borderColor: theme.border, backgroundColor: theme.overlay }}
       >
         <p>Click & Drag to Explore</p>
         <p>Click a cell to zoom</p>
+        <p>Arrow keys & Enter work too</p>
+        <p>Press / to search</p>
       </div>
     </main>
   );
@@ -0,0 +1,56 @@
+import React from "react";
+import { ProjectMedia } from "../../types";
+
+/**
+ * @file The arrows and dots for browsing the zoomed project's gallery.
+ * Only shown while zoomed in on a project that has extra media.
+ * Pointer events are stopped here so pressing a button doesn't count as a tap on the grid.
+ */
+
+interface GalleryControlsProps {
+    items: ProjectMedia[];
+    index: number;
+    isOpen: boolean;
+    onStep: (direction: number) => void;
+    onSelect: (index: number) => void;
+}
+
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export default function GalleryControls({ items, index, isOpen, onStep, onSelect }: GalleryControlsProps) {
+    const isVisible = isOpen && items.length > 1;
+
+    return (
+        <nav
+            aria-label="Project gallery"
+            aria-hidden={!isVisible}
+            inert={!isVisible}
+            onPointerDown={stopPropagation}
+            onPointerUp={stopPropagation}
+            onPointerMove={stopPropagation}
+            className={`absolute bottom-24 left-1/2 -translate-x-1/2 z-10 flex items-center gap-4 text-[var(--grid-accent)]
+            transition-opacity duration-500 ease-in-out
+            ${isVisible ? "opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"}`}
+        >
+            <button type="button" aria-label="Previous item" onClick={() => onStep(-1)} className="px-2 text-xl opacity-70 hover:opacity-100">
+                ‹
+            </button>
+            <div className="flex items-center gap-2">
+                {items.map((item, itemIndex) => (
+                    <button
+                        key={`${itemIndex}-${item.src}`}
+                        type="button"
+                        aria-label={`Show ${item.type} ${itemIndex + 1} of ${items.length}`}
+                        aria-current={itemIndex === index}
+                        onClick={() => onSelect(itemIndex)}
+                        className={`h-2 rounded-full bg-[var(--grid-accent)] transition-all duration-300
+                        ${itemIndex === index ? "w-5 opacity-100" : "w-2 opacity-40 hover:opacity-70"}`}
+                    />
+                ))}
+            </div>
+            <button type="button" aria-label="Next item" onClick={() => onStep(1)} className="px-2 text-xl opacity-70 hover:opacity-100">
+                ›
+            </button>
+        </nav>
+    );
+}
@@ -0,0 +1,30 @@
+import React from "react";
+
+/**
+ * @file A small map of the project layout, with the visible part of the grid marked on it.
+ * The drawing and the camera moves are done by useMinimap; this is just the canvas.
+ * Hidden while zoomed in on a project.
+ */
+
+interface MinimapProps {
+    canvasRef: React.RefObject<HTMLCanvasElement>;
+    isOpen: boolean;
+    handlers: {
+        onPointerDown: (event: React.PointerEvent<HTMLCanvasElement>) => void;
+        onPointerMove: (event: React.PointerEvent<HTMLCanvasElement>) => void;
+        onPointerUp: (event: React.PointerEvent<HTMLCanvasElement>) => void;
+    };
+}
+
+export default function Minimap({ canvasRef, isOpen, handlers }: MinimapProps) {
+    return (
+        <canvas
+            ref={canvasRef}
+            aria-hidden="true"
+            {...handlers}
+            className={`absolute bottom-8 left-8 z-10 rounded-sm border border-[var(--grid-border)] bg-[var(--grid-overlay)] cursor-crosshair
+            transition-opacity duration-500 ease-in-out
+            ${isOpen ? "opacity-80 hover:opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"}`}
+        />
+    );
+}
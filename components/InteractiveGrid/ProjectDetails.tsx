@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from "react";
+import { Project } from "../../types";
+
+/**
+ * @file The case study panel shown next to a zoomed-in project.
+ * It fades and slides in when a project is zoomed, and keeps showing the last
+ * project while it fades out, so the text doesn't vanish before the animation ends.
+ * Pointer events are stopped here so selecting text in the panel doesn't pan the grid.
+ */
+
+export interface ProjectDetailsRenderState {
+    isOpen: boolean;    // Whether a project is currently zoomed
+}
+
+interface ProjectDetailsProps {
+    project: Project | null;
+    isOpen: boolean;
+    // Replaces the default panel contents with a custom layout.
+    renderDetails?: (project: Project, state: ProjectDetailsRenderState) => React.ReactNode;
+}
+
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export default function ProjectDetails({ project, isOpen, renderDetails }: ProjectDetailsProps) {
+    // The last zoomed project, kept around for the fade-out.
+    const [displayedProject, setDisplayedProject] = useState<Project | null>(project);
+    useEffect(() => {
+        if (project) setDisplayedProject(project);
+    }, [project]);
+
+    const isVisible = isOpen && !!project;
+
+    return (
+        <aside
+            aria-label="Project details"
+            aria-hidden={!isVisible}
+            inert={!isVisible}
+            aria-live="polite"
+            onPointerDown={stopPropagation}
+            onPointerUp={stopPropagation}
+            onPointerMove={stopPropagation}
+            onWheel={stopPropagation}
+            className={`absolute z-10 left-4 right-4 bottom-36 md:left-auto md:right-8 md:bottom-auto md:top-1/2 md:w-80
+            text-[var(--grid-accent)] transition-all duration-500 ease-out
+            ${isVisible ? "opacity-100 translate-y-0 md:-translate-y-1/2 pointer-events-auto" : "opacity-0 translate-y-4 md:-translate-y-[45%] pointer-events-none"}`}
+        >
+            {displayedProject && (renderDetails
+                ? renderDetails(displayedProject, { isOpen: isVisible })
+                : <DefaultDetails project={displayedProject} />
+            )}
+        </aside>
+    );
+}
+
+/**
+ * The built-in panel layout: title, year, description, credits and tags.
+ */
+function DefaultDetails({ project }: { project: Project }) {
+    const credits = [
+        { label: "Client", value: project.client },
+        { label: "Role", value: project.role },
+        { label: "Tools", value: project.tools?.join(", ") },
+    ].filter(credit => credit.value);
+
+    return (
+        <div className="p-4 md:p-5 bg-[var(--grid-overlay)] rounded-lg backdrop-blur-sm border border-[var(--grid-border)] max-h-[50vh] overflow-y-auto">
+            <h2 className="text-lg md:text-xl font-bold tracking-wider">
+                {project.title}
+                {project.year !== undefined && <span className="ml-2 text-sm font-normal text-[var(--grid-text)]">{project.year}</span>}
+            </h2>
+            {project.description && (
+                <p className="mt-2 text-sm opacity-80 leading-relaxed">{project.description}</p>
+            )}
+            {credits.length > 0 && (
+                <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs md:text-sm">
+                    {credits.map(credit => (
+                        <React.Fragment key={credit.label}>
+                            <dt className="text-[var(--grid-text)] uppercase tracking-wider">{credit.label}</dt>
+                            <dd>{credit.value}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            )}
+            {project.tags && project.tags.length > 0 && (
+                <ul className="mt-3 flex flex-wrap gap-2 text-xs uppercase tracking-wider" aria-label="Tags">
+                    {project.tags.map(tag => (
+                        <li key={tag} className="px-2 py-0.5 rounded border border-[var(--grid-border)] text-[var(--grid-text)]">{tag}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
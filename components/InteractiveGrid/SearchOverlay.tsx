@@ -0,0 +1,109 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { SearchResult } from "./search";
+
+/**
+ * @file The search box opened with "/". It's a combobox: the arrow keys move
+ * through the results, Enter flies to the selected project and Escape closes it.
+ * Pointer events are stopped here so clicking a result doesn't count as a tap on the grid.
+ */
+
+interface SearchOverlayProps {
+    isOpen: boolean;
+    query: string;
+    results: SearchResult[];
+    onQueryChange: (query: string) => void;
+    onSelect: (projectIndex: number) => void;
+    onClose: () => void;
+}
+
+// Only the best matches are listed, the rest are still highlighted on the grid.
+const MAX_RESULTS = 8;
+
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export default function SearchOverlay({ isOpen, query, results, onQueryChange, onSelect, onClose }: SearchOverlayProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listId = useId();
+    const [activeIndex, setActiveIndex] = useState(0);
+    const visibleResults = results.slice(0, MAX_RESULTS);
+
+    // Focus the input when the overlay opens.
+    useEffect(() => {
+        if (isOpen) inputRef.current?.focus();
+    }, [isOpen]);
+
+    // Start at the best match whenever the results change.
+    useEffect(() => {
+        setActiveIndex(0);
+    }, [results]);
+
+    const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+            event.preventDefault();
+            const direction = event.key === "ArrowDown" ? 1 : -1;
+            setActiveIndex(index => (index + direction + visibleResults.length) % Math.max(visibleResults.length, 1));
+        } else if (event.key === "Enter") {
+            event.preventDefault();
+            const result = visibleResults[activeIndex];
+            if (result) onSelect(result.index);
+        } else if (event.key === "Escape") {
+            event.preventDefault();
+            onClose();
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            role="search"
+            onPointerDown={stopPropagation}
+            onPointerUp={stopPropagation}
+            onPointerMove={stopPropagation}
+            onWheel={stopPropagation}
+            className="absolute top-8 left-1/2 -translate-x-1/2 z-20 w-[min(28rem,calc(100%-2rem))] text-[var(--grid-accent)]"
+        >
+            <input
+                ref={inputRef}
+                type="text"
+                role="combobox"
+                aria-label="Search projects"
+                aria-expanded={visibleResults.length > 0}
+                aria-controls={listId}
+                aria-activedescendant={visibleResults[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+                placeholder="Search projects…"
+                value={query}
+                onChange={(e) => onQueryChange(e.target.value)}
+                onKeyDown={onKeyDown}
+                onBlur={() => { if (!query) onClose(); }}
+                className="w-full px-4 py-3 bg-[var(--grid-overlay)] rounded-lg backdrop-blur-sm border border-[var(--grid-border)] outline-none focus:border-[var(--grid-accent)] placeholder:text-[var(--grid-text)]"
+            />
+            {visibleResults.length > 0 && (
+                <ul
+                    id={listId}
+                    role="listbox"
+                    className="mt-2 py-1 bg-[var(--grid-overlay)] rounded-lg backdrop-blur-sm border border-[var(--grid-border)]"
+                >
+                    {visibleResults.map((result, resultIndex) => (
+                        <li
+                            key={result.index}
+                            id={`${listId}-${resultIndex}`}
+                            role="option"
+                            aria-selected={resultIndex === activeIndex}
+                            // Keep the input focused so the overlay doesn't close before the click lands.
+                            onMouseDown={(e) => e.preventDefault()}
+                            onMouseEnter={() => setActiveIndex(resultIndex)}
+                            onClick={() => onSelect(result.index)}
+                            className={`flex justify-between gap-4 px-4 py-2 cursor-pointer text-sm ${resultIndex === activeIndex ? "bg-[var(--grid-hover)]" : ""}`}
+                        >
+                            <span>{result.project.title}</span>
+                            {result.project.tags && (
+                                <span className="text-[var(--grid-text)] truncate">{result.project.tags.join(", ")}</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
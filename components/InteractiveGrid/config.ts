@@ -5,14 +5,26 @@
  */
 export const AnimationConfig = {
     // --- PHYSICS & FEEL ---
+    // The speeds below are per frame at 60fps. The animation loop scales them to the real frame rate.
     // How quickly the camera pans to its target. Lower is "springier".
     springStiffness: 0.05,
     // How much drag is applied to the camera movement. 0 is no drag, 1 is full stop.
     damping: 0.75,
     // How quickly values like zoom and distortion animate. Lower is slower.
     lerpFactor: 0.1,
+    // The longest gap (in seconds) between two frames that is animated. After a longer one
+    // (e.g. switching back to the tab), the animation picks up where it left off.
+    maxFrameTime: 0.1,
     // How fast the grid pans when you scroll with a mouse wheel.
     scrollSpeed: 0.001,
+    // How much of its speed the grid keeps each frame while gliding after a flick. 0 stops dead, closer to 1 glides further.
+    momentumFriction: 0.95,
+    // How far back (in milliseconds) the drag is measured to get the speed of a flick.
+    momentumSampleTime: 100,
+    // How quickly the camera eases onto the cells when `snapToCell` is on. Lower is gentler.
+    snapStrength: 0.1,
+    // How long (in milliseconds) the user has to stop panning before the camera snaps.
+    snapDelay: 150,
     
     // --- INTERACTION ---
     // How far (in pixels) you need to move your mouse/finger to register a "swipe".
@@ -25,6 +37,28 @@ export const AnimationConfig = {
     zoomedInLevel: 0.3,
     // The default zoom level of the grid.
     defaultZoomLevel: 1.0,
+    // The furthest out pinching, ctrl+wheel or the +/- keys can zoom. Higher shows more cells.
+    maxZoomLevel: 2.0,
+    // Zooming in (by pinching, ctrl+wheel or the + key) past this level zooms into the cell under the pointer.
+    zoomHandoffLevel: 0.45,
+    // How much one press of + or - changes the zoom level.
+    keyboardZoomStep: 1.25,
+    // How fast ctrl+wheel and trackpad pinches zoom.
+    wheelZoomSpeed: 0.01,
+
+    // --- AUTOPILOT ---
+    // How long (in milliseconds) without any input before the autopilot starts touring the grid.
+    autopilotIdleTimeout: 15000,
+    // How long (in milliseconds) the autopilot drifts between two projects, and stays zoomed in on one.
+    autopilotDriftDuration: 6000,
+    autopilotPauseDuration: 5000,
+    // How far (in cells) the drift wanders from where it started, and how fast.
+    autopilotDriftRadius: 3,
+    autopilotDriftSpeed: 0.25,
+
+    // --- THEME ---
+    // How long (in milliseconds) the grid takes to fade from one theme's colors to the next.
+    themeTransitionDuration: 600,
 
     // --- INITIAL STATE ---
     // The initial state for various animation properties.
@@ -36,10 +70,17 @@ export const AnimationConfig = {
         distortion: 1.0, 
         targetDistortion: 1.0, 
         zoomProgress: 0.0,
+        isZoomSettled: false,
+        galleryMix: 1.0,
+        textMix: 1.0,
         lastZoom: 1.0, 
         videoNonce: 0, 
+        historyDepth: 0,
+        lastPanTime: 0,
+        isSnapPending: false,
         hoveredCellId: null, 
         zoomedCellId: null,
+        focusedCellId: null,
     },
 };
 
@@ -52,4 +93,8 @@ export const StyleConfig = {
     imageAtlasTextureSize: 512,
     // The font size for the project titles and years on the textures.
     textureFontSize: 80,
+
+    // --- MINIMAP ---
+    // The length (in pixels) of the minimap's longer side.
+    minimapSize: 160,
 };
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "../../../types";
+import { ThreeContext } from "./types";
+import { buildProjectLayout, ProjectLayout } from "../layout";
+import {
+    getProjectIndexByCellId,
+    getProjectByCellId,
+    getCellBlock,
+    isOnBlockImage,
+    getLayoutBounds,
+    matchesFilter,
+    getReleaseVelocity,
+    toSourceIndex,
+    fromSourceIndex,
+} from "./hookUtils";
+
+// Just enough of THREE.Vector2 for the helpers. Three.js itself is loaded from a CDN.
+class Vector2 {
+    constructor(public x = 0, public y = 0) {}
+    divideScalar(scalar: number) {
+        this.x /= scalar;
+        this.y /= scalar;
+        return this;
+    }
+}
+
+const project = (title: string, fields: Partial<Project> = {}): Project => ({ title, image: "", href: "", ...fields });
+
+const projects = [
+    project("Kinetic UI", { category: "Motion", tags: ["WebGL", "React"] }),
+    project("Type Specimen", { category: "Print" }),
+    project("Field Notes", { tags: ["print", "Book"] }),
+];
+
+// Project 0 covers a 2 x 2 block, the others a cell each, in three columns.
+const layout = buildProjectLayout({ type: "rowMajor", columns: 3 }, [{ columns: 2, rows: 2 }, undefined, undefined], "finite", 3) as ProjectLayout;
+
+const createContext = (fields: Partial<ThreeContext> = {}) => ({ THREE: { Vector2 }, layout, ...fields }) as unknown as ThreeContext;
+
+describe("matchesFilter", () => {
+    it("matches every project without a filter", () => {
+        expect(matchesFilter(projects[1], null)).toBe(true);
+        expect(matchesFilter(projects[1], [])).toBe(true);
+        expect(matchesFilter(projects[1], "")).toBe(true);
+    });
+
+    it("matches the category or a tag, ignoring case", () => {
+        expect(matchesFilter(projects[0], "motion")).toBe(true);
+        expect(matchesFilter(projects[0], "webgl")).toBe(true);
+        expect(matchesFilter(projects[0], "print")).toBe(false);
+        expect(matchesFilter(projects[2], "PRINT")).toBe(true);
+    });
+
+    it("matches any of several filter values", () => {
+        expect(matchesFilter(projects[1], ["Motion", "Print"])).toBe(true);
+        expect(matchesFilter(projects[1], ["Motion", "Book"])).toBe(false);
+    });
+
+    it("never matches a missing project", () => {
+        expect(matchesFilter(null, null)).toBe(false);
+    });
+});
+
+describe("getLayoutBounds", () => {
+    it("covers a finite layout in world units", () => {
+        expect(getLayoutBounds(layout, 0.5)).toEqual({ minX: 0, maxX: 1.5, minY: -0.5, maxY: 0.5 });
+    });
+
+    it("returns null for a repeating layout", () => {
+        expect(getLayoutBounds({ ...layout, repeat: true }, 1)).toBeNull();
+        expect(getLayoutBounds(null, 1)).toBeNull();
+    });
+});
+
+describe("getProjectByCellId", () => {
+    it("finds the project shown in a cell", () => {
+        expect(getProjectByCellId({ x: 1, y: -1 }, projects, layout)).toBe(projects[0]);
+        expect(getProjectByCellId({ x: 2, y: -1 }, projects, layout)).toBe(projects[2]);
+    });
+
+    it("returns nothing for empty cells or a missing layout", () => {
+        expect(getProjectByCellId({ x: 5, y: 0 }, projects, layout)).toBeNull();
+        expect(getProjectIndexByCellId({ x: 0, y: 0 }, null)).toBe(-1);
+        expect(getProjectIndexByCellId(null, layout)).toBe(-1);
+    });
+});
+
+describe("getCellBlock", () => {
+    it("resolves every cell of a spanned project to its bottom-left cell", () => {
+        const block = getCellBlock({ x: 1.5, y: 0.25 }, createContext());
+        expect(block.cellId).toMatchObject({ x: 0, y: -1 });
+        expect(block.span).toMatchObject({ x: 2, y: 2 });
+    });
+
+    it("treats an empty cell as its own block", () => {
+        const block = getCellBlock({ x: 7.5, y: 3.5 }, createContext());
+        expect(block.cellId).toMatchObject({ x: 7, y: 3 });
+        expect(block.span).toMatchObject({ x: 1, y: 1 });
+    });
+});
+
+describe("isOnBlockImage", () => {
+    const block = { cellId: { x: 0, y: -1 }, span: { x: 2, y: 2 } };
+
+    it("accepts positions on the image", () => {
+        expect(isOnBlockImage({ x: 1, y: 0 }, block, 1)).toBe(true);
+    });
+
+    it("rejects positions in the margin around the image", () => {
+        expect(isOnBlockImage({ x: 0.1, y: 0 }, block, 1)).toBe(false);
+        expect(isOnBlockImage({ x: 1, y: 0.9 }, block, 1)).toBe(false);
+    });
+});
+
+describe("getReleaseVelocity", () => {
+    it("averages the drag samples per 60fps frame", () => {
+        const panSamples = [{ x: 0, y: 0, time: 0 }, { x: 0.5, y: -0.2, time: 50 / 3 }, { x: 1, y: -0.4, time: 100 / 3 }];
+        const velocity = getReleaseVelocity(createContext({ panSamples }));
+        expect(velocity.x).toBeCloseTo(0.5);
+        expect(velocity.y).toBeCloseTo(-0.2);
+    });
+
+    it("is zero when the pointer was held still", () => {
+        expect(getReleaseVelocity(createContext({ panSamples: [] }))).toMatchObject({ x: 0, y: 0 });
+        expect(getReleaseVelocity(createContext({ panSamples: [{ x: 1, y: 1, time: 10 }] }))).toMatchObject({ x: 0, y: 0 });
+    });
+});
+
+describe("toSourceIndex / fromSourceIndex", () => {
+    // The second of four given projects was left out by validation.
+    const sourceIndices = [0, 2, 3];
+
+    it("translates grid indices into positions in the given list", () => {
+        expect(toSourceIndex(1, sourceIndices)).toBe(2);
+        expect(toSourceIndex(-1, sourceIndices)).toBe(-1);
+        expect(toSourceIndex(3, sourceIndices)).toBe(-1);
+    });
+
+    it("translates positions in the given list into grid indices", () => {
+        expect(fromSourceIndex(3, sourceIndices)).toBe(2);
+        expect(fromSourceIndex(1, sourceIndices)).toBe(-1);
+    });
+});
@@ -1,5 +1,6 @@
 import { Project } from "../../../types";
 import { ThreeContext } from "./types";
+import { ProjectLayout, getLayoutIndex, getLayoutCell } from "../layout";
 
 /**
  * @file This file contains shared utility functions used by multiple hooks.
@@ -7,21 +8,150 @@ import { ThreeContext } from "./types";
  * individual hooks cleaner and more focused on their primary responsibility.
  */
 
+/**
+ * Calculates the index into the project array for a grid cell's ID.
+ * The lookup goes through the baked layout, which is the same data the shader
+ * reads from its lookup texture, so what you tap is always what you see.
+ * @param id - The {x, y} coordinate of the grid cell.
+ * @param layout - The baked layout (see layout.ts), or null if it isn't ready yet.
+ * @returns The project index for that cell, or -1 if the cell is empty or input is invalid.
+ */
+export const getProjectIndexByCellId = (id: any, layout: ProjectLayout | null): number => {
+     if (!id || !layout) return -1;
+     return getLayoutIndex(layout, id.x, id.y);
+};
+
+/**
+ * Converts the index of a project on the grid into its index in the list the grid was given.
+ * They differ when validation left projects out (see `sourceIndices` in validation.ts).
+ * @returns The index in the given list, or -1 if there's no such project.
+ */
+export const toSourceIndex = (index: number, sourceIndices: number[]): number => {
+    return sourceIndices[index] ?? -1;
+};
+
+/**
+ * Converts an index in the list the grid was given into the index of the project on the grid.
+ * @returns The index on the grid, or -1 if validation left the project out.
+ */
+export const fromSourceIndex = (sourceIndex: number, sourceIndices: number[]): number => {
+    return sourceIndices.indexOf(sourceIndex);
+};
+
 /**
  * Calculates the correct project from the project array based on a grid cell's ID.
- * The calculation uses the modulo operator to ensure the grid wraps around infinitely,
- * so there are no empty cells.
  * @param id - The {x, y} coordinate of the grid cell.
  * @param projects - The array of project data.
- * @returns The project object for that cell, or null if input is invalid.
- */
-export const getProjectByCellId = (id: any, projects: Project[]): Project | null => {
-     if (!id || !projects || projects.length === 0) return null;
-     // A simple way to map a 2D coordinate to a 1D array index.
-     const flatIndex = Math.floor(id.x) + Math.floor(id.y) * 3;
-     // The modulo operator ensures the index always falls within the bounds of the projects array.
-     const projectIndex = ((flatIndex % projects.length) + projects.length) % projects.length;
-     return projects[projectIndex];
+ * @param layout - The baked layout (see layout.ts), or null if it isn't ready yet.
+ * @returns The project object for that cell, or null if the cell is empty or input is invalid.
+ */
+export const getProjectByCellId = (id: any, projects: Project[], layout: ProjectLayout | null): Project | null => {
+     if (!projects) return null;
+     const projectIndex = getProjectIndexByCellId(id, layout);
+     return projects[projectIndex] ?? null;
+};
+
+/**
+ * Finds the block a grid cell belongs to. Featured projects with a `span` cover several
+ * cells, which all resolve to the bottom-left cell of their block. That cell is used as
+ * the ID of the whole block, e.g. for the hovered and zoomed cell.
+ * @param id - The {x, y} coordinate of the grid cell.
+ * @param context - The shared Three.js context object.
+ * @returns The block's bottom-left cell ID and its size in cells. Empty cells are their own 1x1 block.
+ */
+export const getCellBlock = (id: any, context: ThreeContext) => {
+    const { THREE, layout } = context;
+    const cell = layout ? getLayoutCell(layout, id.x, id.y) : null;
+    return {
+        cellId: cell ? new THREE.Vector2(cell.x, cell.y) : new THREE.Vector2(Math.floor(id.x), Math.floor(id.y)),
+        span: new THREE.Vector2(cell?.width ?? 1, cell?.height ?? 1),
+    };
+};
+
+/**
+ * Checks whether a world position lies on the image of a block (rather than its margin).
+ * @param worldCoord - The position in world coordinates.
+ * @param block - The block, as returned by `getCellBlock`.
+ * @param cellSize - The size of one cell in world units.
+ */
+export const isOnBlockImage = (worldCoord: any, block: { cellId: any; span: any }, cellSize: number) => {
+    // The share of the block covered by the image. Must match IMAGE_SIZE in shaders.ts.
+    const imageSize = 0.6;
+    const u = (worldCoord.x / cellSize - block.cellId.x) / block.span.x;
+    const v = (worldCoord.y / cellSize - block.cellId.y) / block.span.y;
+    const margin = (1 - imageSize) / 2;
+    return u >= margin && u <= 1 - margin && v >= margin && v <= 1 - margin;
+};
+
+/**
+ * Calculates the world-space rectangle covered by a layout that doesn't repeat.
+ * The camera is kept inside of it while panning.
+ * @param layout - The baked layout (see layout.ts).
+ * @param cellSize - The size of one cell in world units.
+ * @returns The bounds of the block, or null if the layout repeats infinitely.
+ */
+export const getLayoutBounds = (layout: ProjectLayout | null, cellSize: number) => {
+    if (!layout || layout.repeat) return null;
+    return {
+        minX: layout.originX * cellSize,
+        maxX: (layout.originX + layout.width) * cellSize,
+        minY: layout.originY * cellSize,
+        maxY: (layout.originY + layout.height) * cellSize,
+    };
+};
+
+/**
+ * Checks whether a project passes the active filter. A project matches when its
+ * category or one of its tags equals (case-insensitively) any of the filter values.
+ * An empty filter matches every project.
+ * @param project - The project to test.
+ * @param activeFilter - A single filter value, a list of values, or nothing.
+ */
+export const matchesFilter = (project: Project | null, activeFilter?: string | string[] | null): boolean => {
+    if (!project) return false;
+    const filters = (Array.isArray(activeFilter) ? activeFilter : [activeFilter])
+        .filter((value): value is string => !!value)
+        .map(value => value.toLowerCase());
+    if (filters.length === 0) return true;
+
+    const labels = [project.category, ...(project.tags ?? [])]
+        .filter((value): value is string => !!value)
+        .map(value => value.toLowerCase());
+    return labels.some(label => filters.includes(label));
+};
+
+/**
+ * Checks whether the camera has come to rest, i.e. the pan spring and zoom lerp have settled.
+ * @param context - The shared Three.js context object.
+ */
+export const isCameraSettled = (context: ThreeContext) => {
+    const { offset, targetOffset, offsetVelocity, panVelocity, zoom, targetZoom } = context;
+    return offset.distanceTo(targetOffset) < 0.0005 && offsetVelocity.length() < 0.0005 && panVelocity.length() < 0.0005 && Math.abs(targetZoom - zoom) < 0.001;
+};
+
+/**
+ * Measures how fast the user was dragging the grid just before letting go, from the recent drag samples.
+ * @param context - The shared Three.js context object.
+ * @returns The velocity in world units per frame (at 60fps), or zero if the pointer was held still.
+ */
+export const getReleaseVelocity = (context: ThreeContext) => {
+    const { panSamples, THREE } = context;
+    const first = panSamples[0];
+    const last = panSamples[panSamples.length - 1];
+    if (!first || last.time - first.time <= 0) return new THREE.Vector2();
+    const framesElapsed = (last.time - first.time) / (1000 / 60);
+    return new THREE.Vector2(last.x - first.x, last.y - first.y).divideScalar(framesElapsed);
+};
+
+/**
+ * Stops the glide after a flick, and the snap onto the cells after it, e.g. when the
+ * camera is sent somewhere else.
+ * @param context - The shared Three.js context object.
+ */
+export const stopMomentum = (context: ThreeContext) => {
+    context.panVelocity?.set(0, 0);
+    context.panSamples = [];
+    context.isSnapPending = false;
 };
 
 /**
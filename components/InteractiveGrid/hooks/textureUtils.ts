@@ -32,7 +32,7 @@ export const createTextTexture = (project: Project, fontStyle: FontStyle, THREE:
     ctx.textBaseline = "middle";
     ctx.fillText(title.toUpperCase(), 30, StyleConfig.textTextureHeight / 2);
     ctx.textAlign = "right";
-    ctx.fillText(year.toString(), StyleConfig.textTextureWidth - 30, StyleConfig.textTextureHeight / 2);
+    if (year !== undefined) ctx.fillText(year.toString(), StyleConfig.textTextureWidth - 30, StyleConfig.textTextureHeight / 2);
     
     return new THREE.CanvasTexture(canvas);
 };
@@ -85,4 +85,29 @@ export const createPlaceholderTexture = (THREE: any) => {
     ctx.fillText("Load Error", size / 2, size / 2);
     
     return new THREE.CanvasTexture(canvas);
-};
\ No newline at end of file
+};
+
+/**
+ * Creates a 1-pixel-tall data texture with one RGBA texel per project.
+ * The shader reads per-project state (like the filter dimming) from it,
+ * using the project's index as the x coordinate.
+ */
+export const createProjectMaskTexture = (projectCount: number, THREE: any) => {
+    const width = Math.max(projectCount, 1);
+    const texture = new THREE.DataTexture(new Uint8Array(width * 4), width, 1, THREE.RGBAFormat);
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+};
+
+/**
+ * Copies mask values (0-1 floats) into a project mask texture and flags it for upload.
+ */
+export const writeProjectMaskTexture = (texture: any, values: Float32Array) => {
+    const data: Uint8Array = texture.image.data;
+    for (let i = 0; i < data.length && i < values.length; i++) {
+        data[i] = Math.round(values[i] * 255);
+    }
+    texture.needsUpdate = true;
+};
@@ -1,18 +1,172 @@
-import { Project } from "../../../types";
+import React from "react";
+import { Project, ProjectMedia } from "../../../types";
+import { LayoutStrategy, ProjectLayout } from "../layout";
+import { ProjectDetailsRenderState } from "../ProjectDetails";
+import { UrlSyncMode } from "../urlState";
+import { AnimationConfig } from "../config";
+import { ProjectDiagnostic } from "../validation";
+import { PostPass } from "../postprocessing";
+import { GridThemeSetting } from "../theme";
 
 export interface InteractiveGridProps {
     className?: string;
-    projects: Project[];
+    // A static list of projects. Also used as the fallback while a `source` is loading.
+    projects?: Project[];
+    // Loads projects from a JSON URL or an async loader instead of a static list.
+    source?: ProjectSource;
+    // Called with every problem found in the project data. Invalid projects are left out of the grid.
+    onDiagnostics?: (diagnostics: ProjectDiagnostic[]) => void;
     fontFamily: string;
     fontWeight: string | number;
-    backgroundColor: string;
-    borderColor: string;
-    hoverColor: string;
-    textColor: string;
+    // The colors of the grid and its panels: "dark" (the default), "light", "highContrast", "auto" to follow
+    // the system's light/dark setting, a theme object, or a `{ light, dark }` pair. Changes fade in.
+    theme?: GridThemeSetting;
+    // Override single colors of the theme.
+    backgroundColor?: string;
+    borderColor?: string;
+    hoverColor?: string;
+    textColor?: string;
     cellSize: number;
     distortionStrength: number;
     disableMobileHover: boolean;
     optimizeMobile: boolean;
+    // Only projects whose category or tags match one of these values stay fully visible.
+    activeFilter?: string | string[] | null;
+    // "infinite" repeats the projects forever, "finite" lays them out once in a bounded block.
+    layout?: "infinite" | "finite";
+    // The default number of columns for the "rowMajor" and "shuffle" layout strategies.
+    columns?: number;
+    // How projects are placed on the grid. Defaults to "rowMajor".
+    layoutStrategy?: LayoutStrategy;
+    // Shows a case study panel (description, client, role, tools, tags) next to a zoomed project. Defaults to true.
+    showDetails?: boolean;
+    // Replaces the contents of the detail panel with a custom layout.
+    renderDetails?: (project: Project, state: ProjectDetailsRenderState) => React.ReactNode;
+    // Lets users press "/" to open the search overlay while the grid has focus. Defaults to true.
+    searchEnabled?: boolean;
+    // Controls the search query from outside, e.g. from your own input. Matching cells are highlighted.
+    searchQuery?: string;
+    // Called when the query typed into the search overlay changes (or is cleared).
+    onSearchQueryChange?: (query: string) => void;
+    // Keeps the zoomed project and camera position in the URL ("hash" or "query"), so views can be shared.
+    urlSync?: UrlSyncMode;
+    // The closest and furthest zoom levels for pinching and ctrl+wheel. Smaller is closer.
+    minZoom?: number;
+    maxZoom?: number;
+    // How zooming uses the browser history, so Back zooms out instead of leaving the page.
+    // "none" (the default) leaves the history alone, "zoom" adds one entry per zoom, and "cell" also adds
+    // one per project visited while zoomed.
+    history?: "none" | "zoom" | "cell";
+    // Shows a small map of the project layout with the visible area marked. Click or drag on it to move.
+    showMinimap?: boolean;
+    // Eases the camera onto the cell grid once panning stops, so no cells are cut in half. Off by default.
+    snapToCell?: boolean | SnapOptions;
+    // Tours the grid on its own after a while without input, e.g. for a kiosk. Any input takes back control.
+    autopilot?: boolean | AutopilotOptions;
+    // Overrides the defaults in `AnimationConfig` for this grid only, e.g. `{ zoomedInLevel: 0.5 }`. Changes apply live.
+    animation?: Partial<AnimationSettings>;
+    // The post-processing passes drawn over the grid, in order: names of built-in or registered passes
+    // (see `registerPostPass`), or `PostPass` objects. Defaults to ["motionBlur", "vignette"]; [] turns them off.
+    postPasses?: (string | PostPass)[];
+    // Called when the user interacts with the grid, e.g. for analytics or updating the page title.
+    // Each one fires once per change, with the project, its index and its cell.
+    onHoverProjectChange?: (event: GridProjectEvent | null) => void; // null when no project is hovered
+    onZoomStart?: (event: GridProjectEvent) => void;    // A project starts zooming in
+    onZoomEnd?: (event: GridProjectEvent) => void;      // The zoom into a project has come to rest
+    onNavigate?: (event: GridNavigationEvent) => void;  // Moved to another project while zoomed
+    onUnzoom?: (event: GridProjectEvent) => void;       // Zoomed back out of a project
+    onOpenProject?: (event: GridProjectEvent) => void;  // Opened the zoomed project (see `openMode`)
+    // How the zoomed project's `href` is opened: in a "newTab" (the default), the "sameTab", or only by
+    // `onOpen` ("custom"), e.g. to push a route in a single-page app.
+    openMode?: OpenMode;
+    // Called when the zoomed project is opened, before any navigation. Call `event.preventDefault()` to handle it yourself.
+    onOpen?: (project: Project, event: ProjectOpenEvent) => void;
+    // Opens the zoomed project when its image is tapped again, instead of zooming out.
+    openOnSecondTap?: boolean;
+    // Controls which project is zoomed in on from outside, e.g. from a router param (null for none).
+    // The grid then only reports the user's zooms through `onZoomedProjectIndexChange`, and follows the prop.
+    // The index is a position in `projects` (or the loaded `source`), counting projects that validation left out.
+    zoomedProjectIndex?: number | null;
+    // Called when the zoomed project changes, or (when controlled) when the user asks for a change.
+    onZoomedProjectIndexChange?: (index: number | null) => void;
+}
+
+/**
+ * Describes where to load projects from, and how to map the raw data onto the `Project` shape.
+ * Either `url` or `load` should be set.
+ */
+export interface ProjectSource {
+    url?: string;                        // A JSON endpoint, e.g. a file in /public or a CMS REST API
+    load?: () => Promise<unknown>;       // An async loader, e.g. a call into a CMS SDK (may be an inline function)
+    itemsPath?: string;                  // A dot path to the list inside the response, e.g. "data.items"
+    fields?: Partial<Record<keyof Project, string>>; // A dot path into each item for every `Project` field
+    transform?: (item: any, index: number) => Project; // Full control over mapping a single item
+    pollInterval?: number;               // Re-fetch every N milliseconds (0 or unset disables polling)
+    refreshKey?: unknown;                // Change this value to re-fetch on demand
+    onError?: (error: unknown) => void;  // Called when loading or mapping fails
+}
+
+/**
+ * Describes the project an event is about (see the `on...` callbacks of `InteractiveGridProps`).
+ */
+export interface GridProjectEvent {
+    project: Project;
+    index: number;                      // The project's index in `projects` (or the loaded `source`)
+    cellId: { x: number; y: number };   // The block the project is shown in (its bottom-left cell)
+}
+
+/**
+ * A move to another project while zoomed, and what the user did to get there.
+ * "programmatic" covers everything else, e.g. the controller API, search and the Back button.
+ */
+export interface GridNavigationEvent extends GridProjectEvent {
+    direction: "tap" | "swipe" | "keyboard" | "programmatic";
+}
+
+/**
+ * How the zoomed project's `href` is opened (see `InteractiveGridProps.openMode`).
+ */
+export type OpenMode = "newTab" | "sameTab" | "custom";
+
+/**
+ * Passed to `onOpen` when the zoomed project is opened.
+ */
+export interface ProjectOpenEvent {
+    trigger: "link" | "tap";    // Whether the "View Project" link or the zoomed image was used
+    nativeEvent?: Event;        // The DOM event of a link click
+    defaultPrevented: boolean;
+    preventDefault: () => void; // Stops the grid (and the link) from navigating to the `href`
+}
+
+/**
+ * The names of the callbacks that `ThreeContext.emitEvent` can fire.
+ */
+export type GridEventName = "onHoverProjectChange" | "onZoomStart" | "onZoomEnd" | "onNavigate" | "onUnzoom" | "onOpenProject";
+
+/**
+ * The tunable animation and interaction values (see `AnimationConfig` for what each one does).
+ */
+export type AnimationSettings = Omit<typeof AnimationConfig, "initialState">;
+
+/**
+ * How the camera snaps onto the cell grid once panning stops (see `snapToCell`).
+ */
+export interface SnapOptions {
+    x?: boolean;                    // Snap horizontally (default true)
+    y?: boolean;                    // Snap vertically (default true)
+    align?: "center" | "boundary";  // Center a cell in the view, or the line between two cells (default "center")
+    strength?: number;              // How quickly to ease into place, from 0 to 1 (default `AnimationConfig.snapStrength`)
+}
+
+/**
+ * How the grid tours itself while nobody is using it (see `autopilot`).
+ * The durations are in milliseconds, and default to the `autopilot` values in `AnimationConfig`.
+ */
+export interface AutopilotOptions {
+    idleTimeout?: number;               // How long without input before the tour starts
+    order?: "random" | "sequential";    // Which project to visit next (default "random")
+    driftDuration?: number;             // How long to drift between two projects
+    pauseDuration?: number;             // How long to stay zoomed in on a project
 }
 
 /**
@@ -21,12 +175,23 @@ export interface InteractiveGridProps {
  * Using a ref allows us to modify these values without causing React re-renders.
  */
 export interface ThreeContext {
+    // The animation settings of this grid: `AnimationConfig` with the `animation` prop merged over it
+    config: AnimationSettings;
+    // Fires one of the event callbacks for the project in a block (see useGridEvents)
+    emitEvent: (name: GridEventName, cellId: any, details?: { direction: GridNavigationEvent["direction"] }) => void;
+
     // Core Three.js objects
     THREE?: any;
     scene?: any;
     camera?: any;
     renderer?: any;
     plane?: any; // This is the main plane mesh with our shader material
+
+    // Post-processing (see usePostProcessing)
+    renderTargets: any[];   // Two screen-sized targets the scene and the passes take turns drawing into
+    postScene?: any;        // Holds `postQuad`, the full-screen plane the passes are drawn on
+    postQuad?: any;
+    postPasses: { pass: PostPass; material: any }[]; // The compiled passes, in order
     
     // Media elements
     videoRef?: HTMLVideoElement;
@@ -44,6 +209,11 @@ export interface ThreeContext {
     offset: any;            // The current camera pan offset
     targetOffset: any;      // The target camera pan offset
     offsetVelocity: any;    // The velocity of the camera pan for spring physics
+    panVelocity: any;       // The glide velocity after a flick, in world units per frame
+    panSamples: { x: number; y: number; time: number }[]; // Recent drag positions, for measuring the flick speed
+    lastPanTime: number;    // When the user last panned with the pointer or wheel (see `performance.now`)
+    isSnapPending: boolean; // Set when the user ends a pan or flick, until the camera has snapped (or is sent elsewhere)
+    snap: SnapOptions | null; // How to snap onto the cells once panning stops, or null to not snap
     mousePos: any;          // The current smoothed mouse position
     targetMousePos: any;    // The actual raw mouse position
     zoom: number;           // The current zoom level
@@ -51,6 +221,9 @@ export interface ThreeContext {
     distortion: number;     // The current barrel distortion strength
     targetDistortion: number; // The target barrel distortion strength
     zoomProgress: number;   // A 0-1 value representing the zoom animation progress
+    isZoomSettled: boolean; // Whether the current zoom has come to rest (and `onZoomEnd` has fired)
+
+    zoomGesture: { startZoom: number; anchorWorld: any } | null; // The pinch/ctrl+wheel zoom in progress
 
     // Zoom history (to remember where to return to after unzooming)
     lastOffset: any;
@@ -58,6 +231,65 @@ export interface ThreeContext {
 
     // Cell state
     videoNonce: number;     // A counter to prevent race conditions with video loading
+    historyDepth: number;   // How many browser history entries the current zoom has added
     hoveredCellId: any | null; // The ID of the cell currently being hovered over
     zoomedCellId: any | null;  // The ID of the cell currently zoomed in on
-}
\ No newline at end of file
+    focusedCellId: any | null; // The ID of the block with keyboard focus
+    layout: ProjectLayout | null; // The baked cell-to-project layout (shared by the shader and hit-testing)
+
+    // Gallery state (see useGallery)
+    gallery: GalleryState | null; // The gallery of the zoomed project, or null if it has none
+    galleryMix: number;     // The 0-1 crossfade progress from the previous gallery item to the current one
+    textMix: number;        // The 0-1 crossfade progress from the previous text atlas to the current one (after a theme change)
+
+    // Controller state (see useGridController)
+    settleCallbacks: (() => void)[]; // Called once, the next time the camera comes to rest
+    // A zoom change asked of the owner in controlled mode (cellId null to zoom out), until the prop follows
+    // or the owner turns it down. Settle callbacks wait for it, `fromHistory` keeps a Back/Forward change
+    // from adding entries, and `time` (from `performance.now()`) lets the animation loop give up on it.
+    zoomRequest: { cellId: any | null; fromHistory: boolean; time: number } | null;
+
+    // Per-project mask state (4 channels per project, see `uProjectMask` in the shader)
+    projectMask: Float32Array | null;       // The current, animated mask values
+    targetProjectMask: Float32Array | null; // The values the mask is animating towards
+}
+
+/**
+ * The gallery of the zoomed project. Kept on the context so event handlers
+ * can read it synchronously, without waiting for a React render.
+ */
+export interface GalleryState {
+    cellId: any;            // The block the gallery is shown in
+    items: ProjectMedia[];  // The cover image followed by the project's media
+    index: number;          // The item currently shown
+    nonce: number;          // A counter to drop image loads that were overtaken by a newer step
+}
+
+/**
+ * A snapshot of the camera and zoom state, returned by `InteractiveGridHandle.getState`.
+ */
+export interface GridViewState {
+    offset: { x: number; y: number };           // The camera position in world units
+    zoom: number;                               // The current zoom level (smaller is closer)
+    isZoomed: boolean;                          // Whether a project is zoomed in on
+    zoomedCellId: { x: number; y: number } | null; // The block that's zoomed in on
+    zoomedProjectIndex: number;                 // The index of the zoomed project, or -1
+    projectCount: number;                       // The number of projects given to the grid (e.g. once a `source` has loaded)
+}
+
+/**
+ * The imperative API exposed through a ref on `InteractiveGrid`, for driving the grid
+ * from outside (e.g. a nav menu or an intro sequence). Targets are either a project
+ * index, which picks the copy of the project nearest to the camera, or a cell ID.
+ * Every method returns a promise that resolves once the camera has come to rest.
+ * Like a tap, a target that's empty or hidden by the active filter isn't zoomed into:
+ * the promise resolves right away.
+ */
+export interface InteractiveGridHandle {
+    flyTo: (target: number | { x: number; y: number }) => Promise<void>;  // Pans to a project without zooming (or switches project while zoomed)
+    zoomTo: (target: number | { x: number; y: number }) => Promise<void>; // Pans to a project and zooms into it
+    unzoom: () => Promise<void>;
+    panBy: (columns: number, rows: number) => Promise<void>; // Moves the camera by a number of cells
+    resetView: () => Promise<void>;                        // Unzooms and returns to the starting position
+    getState: () => GridViewState;
+}
@@ -1,47 +1,170 @@
-import { useEffect } from "react";
-import { ThreeContext } from "./types";
-import { screenToWorld } from "./hookUtils";
+import { useEffect, useRef } from "react";
+import { ThreeContext, SnapOptions, AnimationSettings } from "./types";
+import { screenToWorld, getLayoutBounds, getCellBlock, isCameraSettled } from "./hookUtils";
+import { writeProjectMaskTexture } from "./textureUtils";
 import { AnimationConfig } from "../config";
 
+// The spring is stepped at a fixed rate, which is what its constants are tuned for.
+const PHYSICS_STEP = 1 / 60;
+
+// How long (in ms) a controlled zoom waits for the owner to pass the new index back. An owner
+// that ignores the request may never re-render, so after this it counts as turned down.
+const ZOOM_REQUEST_TIMEOUT = 1000;
+
+/**
+ * Converts a per-frame (at 60fps) lerp factor into the factor for a frame of any length,
+ * so that e.g. two frames at 120fps move exactly as far as one frame at 60fps.
+ * @param factor - The lerp factor for one frame at 60fps.
+ * @param frames - The length of this frame, in frames at 60fps.
+ */
+const scaleLerpFactor = (factor: number, frames: number) => 1 - Math.pow(1 - factor, frames);
+
+/**
+ * Draws the scene, then runs the enabled post passes over it in order (see usePostProcessing).
+ * The scene and the passes take turns drawing into the two render targets, and the last
+ * pass draws to the canvas. Without any active passes, the scene is drawn to the canvas directly.
+ */
+const renderFrame = (context: ThreeContext) => {
+    const { renderer, scene, camera, plane, postScene, postQuad } = context;
+    const state = { zoomProgress: plane.material.uniforms.uZoomProgress.value, optimizeMobile: plane.material.uniforms.uOptimizeMobile.value };
+    const passes = context.postPasses.filter(({ pass }) => pass.enabled !== false && (pass.isActive?.(state) ?? true));
+    if (passes.length === 0) {
+        renderer.render(scene, camera);
+        return;
+    }
+
+    let [readTarget, writeTarget] = context.renderTargets;
+    renderer.setRenderTarget(readTarget);
+    renderer.render(scene, camera);
+
+    const { uTime, uZoomProgress, uOptimizeMobile } = plane.material.uniforms;
+    passes.forEach(({ material }, i) => {
+        const { uniforms } = material;
+        uniforms.tDiffuse.value = readTarget.texture;
+        uniforms.uResolution.value.set(readTarget.width, readTarget.height);
+        uniforms.uTime.value = uTime.value;
+        uniforms.uZoomProgress.value = uZoomProgress.value;
+        uniforms.uOptimizeMobile.value = uOptimizeMobile.value;
+        postQuad.material = material;
+        renderer.setRenderTarget(i === passes.length - 1 ? null : writeTarget);
+        renderer.render(postScene, camera);
+        [readTarget, writeTarget] = [writeTarget, readTarget];
+    });
+};
+
 /**
  * @file Manages the main animation loop using `requestAnimationFrame`.
  * This hook is the heartbeat of the experience. It runs on every frame and
  * is responsible for all continuous updates, including:
  * - Calculating spring physics for smooth camera movement.
  * - Interpolating (lerping) values for smooth visual transitions.
- * - Detecting which grid cell is being hovered over.
- * - Handling drag-to-pan logic.
+ * - Scaling all of the above to the real time between frames, so the motion is the
+ *   same at any frame rate (the values in `AnimationConfig` are per frame at 60fps).
+ * - Fading the per-project mask (e.g. filter dimming) towards its target.
+ * - Crossfading between the items of the zoomed project's gallery, and to the text of a new theme.
+ * - Detecting which grid cell is being hovered over, and when a zoom has come to rest
+ *   (both are reported to the event callbacks).
+ * - Handling drag-to-pan logic, and gliding on after the user flicks the grid.
+ * - Snapping the camera onto the cells once panning stops (if `snapToCell` is on).
+ * - Keeping the camera inside the project block of a "finite" layout.
+ * - Resolving the promises of controller calls once the camera comes to rest.
  * - Updating the shader uniforms with the new values.
- * - Rendering the final scene.
+ * - Rendering the final scene, followed by the post-processing passes.
  */
 export function useAnimationLoop(
     threeContext: React.MutableRefObject<ThreeContext>,
     isThreeInitialized: boolean,
-    setVideoState: (cellId: any) => void
+    setVideoState: (cellId: any, src?: string) => void,
+    snapToCell?: boolean | SnapOptions,
+    animation?: Partial<AnimationSettings>
 ) {
+    // Keep the snap options on the context, so the loop sees changes without restarting.
+    // `setVideoState` changes with the projects. Read it through a ref, so the loop keeps
+    // running (and pending controller calls keep waiting) when e.g. a project source loads.
+    const setVideoStateRef = useRef(setVideoState);
+    useEffect(() => {
+        setVideoStateRef.current = setVideoState;
+    }, [setVideoState]);
+
+    useEffect(() => {
+        threeContext.current.snap = snapToCell === true ? {} : snapToCell || null;
+    }, [threeContext, snapToCell]);
+
+    // Likewise for the animation settings. The other hooks read them from the context too.
+    useEffect(() => {
+        const { current: context } = threeContext;
+        const previous = context.config;
+        context.config = { ...AnimationConfig, ...animation };
+        // Follow a new default zoom level, unless the user has zoomed away from the old one.
+        if (!context.isZoomed && context.targetZoom === previous.defaultZoomLevel) {
+            context.targetZoom = context.config.defaultZoomLevel;
+        }
+    }, [threeContext, animation]);
+
     useEffect(() => {
         if (!isThreeInitialized) return;
 
         let animationFrameId: number;
         const { current: context } = threeContext;
-        const { plane, renderer, scene, camera, THREE } = context;
-        const { springStiffness, damping, lerpFactor } = AnimationConfig;
+        const { plane, THREE } = context;
+        let lastFrameTime: number | null = null;
+        // The time not yet simulated by the spring, less than one physics step.
+        let physicsTime = 0;
+        // The camera offset before the last physics step, and the one drawn in between the two.
+        const previousOffset = context.offset.clone();
+        const renderOffset = context.offset.clone();
 
-        const animate = () => {
+        const animate = (time: number) => {
             animationFrameId = requestAnimationFrame(animate);
+            // Read the settings every frame, so changes to the `animation` prop apply right away.
+            const { springStiffness, damping, lerpFactor, momentumFriction, momentumSampleTime, snapStrength, snapDelay, maxFrameTime, themeTransitionDuration } = context.config;
 
             // --- 1. PHYSICS & SMOOTHING ---
 
+            // Measure the real time since the last frame. Long gaps (e.g. while the tab was in the
+            // background) are cut short, so the animation resumes rather than jumping to its end.
+            // The first rAF timestamp can be a little earlier than the `performance.now()` the loop
+            // was started with, so the time never goes backwards.
+            const deltaTime = lastFrameTime === null ? PHYSICS_STEP : Math.max(0, Math.min((time - lastFrameTime) / 1000, maxFrameTime));
+            lastFrameTime = time;
+            // The length of this frame in frames at 60fps, which the config values are tuned for.
+            const frames = deltaTime / PHYSICS_STEP;
+            const lerpAmount = scaleLerpFactor(lerpFactor, frames);
+
             // Apply spring physics to the camera offset for a bouncy, natural feel.
-            const force = context.targetOffset.clone().sub(context.offset).multiplyScalar(springStiffness);
-            context.offsetVelocity.add(force).multiplyScalar(damping);
-            context.offset.add(context.offsetVelocity);
+            // The spring runs in fixed steps, and the offset drawn is blended between the last two.
+            physicsTime += deltaTime;
+            while (physicsTime >= PHYSICS_STEP) {
+                previousOffset.copy(context.offset);
+                const force = context.targetOffset.clone().sub(context.offset).multiplyScalar(springStiffness);
+                context.offsetVelocity.add(force).multiplyScalar(damping);
+                context.offset.add(context.offsetVelocity);
+                physicsTime -= PHYSICS_STEP;
+            }
+            renderOffset.copy(previousOffset).lerp(context.offset, physicsTime / PHYSICS_STEP);
 
             // Linearly interpolate (lerp) values towards their targets for smooth transitions.
-            context.mousePos.lerp(context.targetMousePos, lerpFactor);
-            context.zoom += (context.targetZoom - context.zoom) * lerpFactor;
-            context.distortion += (context.targetDistortion - context.distortion) * lerpFactor;
-            context.zoomProgress += ((context.isZoomed ? 1 : 0) - context.zoomProgress) * lerpFactor;
+            context.mousePos.lerp(context.targetMousePos, lerpAmount);
+            context.zoom += (context.targetZoom - context.zoom) * lerpAmount;
+            context.distortion += (context.targetDistortion - context.distortion) * lerpAmount;
+            context.zoomProgress += ((context.isZoomed ? 1 : 0) - context.zoomProgress) * lerpAmount;
+            context.galleryMix += (1 - context.galleryMix) * lerpAmount;
+            // The text of a new theme fades in over the same time as the theme's colors (see useUniforms).
+            context.textMix = themeTransitionDuration > 0 ? Math.min(context.textMix + (deltaTime * 1000) / themeTransitionDuration, 1) : 1;
+
+            // Fade the per-project mask, only re-uploading the texture while something is still changing.
+            const { projectMask, targetProjectMask } = context;
+            if (projectMask && targetProjectMask && projectMask.length === targetProjectMask.length) {
+                let isMaskChanging = false;
+                for (let i = 0; i < projectMask.length; i++) {
+                    const diff = targetProjectMask[i] - projectMask[i];
+                    if (diff === 0) continue;
+                    projectMask[i] = Math.abs(diff) < 0.001 ? targetProjectMask[i] : projectMask[i] + diff * lerpAmount;
+                    isMaskChanging = true;
+                }
+                const { uProjectMask } = plane.material.uniforms;
+                if (isMaskChanging && uProjectMask.value) writeProjectMaskTexture(uProjectMask.value, projectMask);
+            }
 
             // --- 2. STATE UPDATES ---
 
@@ -49,12 +172,15 @@ export function useAnimationLoop(
             if (!context.isZoomed) {
                 const worldCoord = screenToWorld(context.targetMousePos, context);
                 const currentCellSize = plane.material.uniforms.uCellSize.value;
-                const currentCellId = new THREE.Vector2(Math.floor(worldCoord.x / currentCellSize), Math.floor(worldCoord.y / currentCellSize));
+                const hoveredCell = new THREE.Vector2(worldCoord.x / currentCellSize, worldCoord.y / currentCellSize);
+                // Cells of a featured project resolve to their block, so the whole block counts as one.
+                const currentCellId = getCellBlock(hoveredCell, context).cellId;
                 
                 // If the hovered cell changes, update the state and trigger the video.
                 if (!context.hoveredCellId || !currentCellId.equals(context.hoveredCellId)) {
                     context.hoveredCellId = currentCellId.clone();
-                    if (setVideoState) setVideoState(currentCellId);
+                    setVideoStateRef.current(currentCellId);
+                    context.emitEvent("onHoverProjectChange", currentCellId);
                 }
             }
 
@@ -68,27 +194,108 @@ export function useAnimationLoop(
                 context.previousMouse.copy(context.targetMousePos);
             }
 
+            // Remember where the drag was recently, to measure the speed of a flick when the user lets go.
+            if (context.isDragging && !context.isZoomed) {
+                const now = performance.now();
+                context.panSamples.push({ x: context.targetOffset.x, y: context.targetOffset.y, time: now });
+                while (context.panSamples.length > 2 && now - context.panSamples[0].time > momentumSampleTime) context.panSamples.shift();
+            }
+
+            // After a flick, keep the grid gliding and let friction slow it down.
+            if (!context.isDragging && context.panVelocity.lengthSq() > 0) {
+                if (context.isZoomed || context.panVelocity.length() < 0.00001) context.panVelocity.set(0, 0);
+                // The distance covered over this frame's worth of 60fps frames, each slowed by the friction.
+                const decay = Math.pow(momentumFriction, frames);
+                const distance = momentumFriction < 1 ? (1 - decay) / (1 - momentumFriction) : frames;
+                context.targetOffset.add(context.panVelocity.clone().multiplyScalar(distance));
+                context.panVelocity.multiplyScalar(decay);
+            }
+
+            // Once the user's pan (and any glide after it) has stopped, ease the camera onto the cells.
+            // Moves made by code (keyboard focus, the controller, search, the minimap) call this off,
+            // as they already aim at the middle of a block.
+            const { snap } = context;
+            const isPanning = context.isDragging || context.panVelocity.lengthSq() > 0 || performance.now() - context.lastPanTime < snapDelay;
+            if (snap && context.isSnapPending && !isPanning && !context.isZoomed && !context.zoomGesture) {
+                const cellSize = plane.material.uniforms.uCellSize.value;
+                const strength = scaleLerpFactor(snap.strength ?? snapStrength, frames);
+                let snapTarget;
+                if (snap.align === "boundary") {
+                    snapTarget = context.targetOffset.clone().divideScalar(cellSize).round().multiplyScalar(cellSize);
+                } else {
+                    // Center the block under the middle of the view, so a featured project is centered as a whole.
+                    const block = getCellBlock(context.targetOffset.clone().divideScalar(cellSize), context);
+                    snapTarget = block.cellId.clone().add(block.span.clone().multiplyScalar(0.5)).multiplyScalar(cellSize);
+                }
+                if (snap.x === false) snapTarget.x = context.targetOffset.x;
+                if (snap.y === false) snapTarget.y = context.targetOffset.y;
+                context.targetOffset.lerp(snapTarget, strength);
+                // Done once it's there, so the snap doesn't hold on to the camera afterwards.
+                if (context.targetOffset.distanceTo(snapTarget) < cellSize * 0.001) {
+                    context.targetOffset.copy(snapTarget);
+                    context.isSnapPending = false;
+                }
+            }
+
+            // In a "finite" layout, pull the camera back inside the project block once the
+            // user lets go. The spring above eases it there, giving a rubber-band feel.
+            if (!context.isDragging) {
+                const bounds = getLayoutBounds(context.layout, plane.material.uniforms.uCellSize.value);
+                if (bounds) {
+                    const { x, y } = context.targetOffset;
+                    context.targetOffset.x = Math.min(Math.max(x, bounds.minX), bounds.maxX);
+                    context.targetOffset.y = Math.min(Math.max(y, bounds.minY), bounds.maxY);
+                    // Gliding into an edge stops the glide along it.
+                    if (context.targetOffset.x !== x) context.panVelocity.x = 0;
+                    if (context.targetOffset.y !== y) context.panVelocity.y = 0;
+                }
+            }
+
+            // Report once that a zoom into a project has come to rest.
+            if (context.isZoomed && !context.isZoomSettled && isCameraSettled(context)) {
+                context.isZoomSettled = true;
+                context.emitEvent("onZoomEnd", context.zoomedCellId);
+            }
+
+            // Let controller calls waiting on the camera know that it has come to rest. In controlled mode,
+            // a zoom that's still waiting for the owner to pass the prop back hasn't started yet.
+            if (context.zoomRequest && performance.now() - context.zoomRequest.time > ZOOM_REQUEST_TIMEOUT) {
+                context.zoomRequest = null;
+            }
+            if (context.settleCallbacks.length > 0 && !context.isDragging && !context.zoomRequest && isCameraSettled(context)) {
+                const callbacks = context.settleCallbacks;
+                context.settleCallbacks = [];
+                callbacks.forEach(callback => callback());
+            }
+
             // --- 3. SHADER & RENDER ---
 
             // Update the necessary shader uniforms with the new values from this frame.
             Object.assign(plane.material.uniforms, {
+                uOffset: { value: renderOffset },
                 uZoom: { value: context.zoom },
                 uDistortionStrength: { value: context.distortion },
                 uZoomProgress: { value: context.zoomProgress },
-                uTime: { value: plane.material.uniforms.uTime.value + 0.016 }, // Increment time
+                uGalleryMix: { value: context.galleryMix },
+                uTextMix: { value: context.textMix },
+                uTime: { value: plane.material.uniforms.uTime.value + deltaTime }, // Advance time in seconds
             });
             
             // If there's a video texture, tell Three.js it needs to be updated.
             if (context.videoTextureRef) context.videoTextureRef.needsUpdate = true;
             
-            // Finally, render the scene with the updated camera and uniforms.
-            renderer.render(scene, camera);
+            // Finally, render the scene with the updated camera and uniforms, and the passes over it.
+            renderFrame(context);
         };
 
-        animate();
+        animate(performance.now());
 
         return () => {
             cancelAnimationFrame(animationFrameId);
+            // The grid is going away, so nothing will move anymore. Don't leave anyone waiting.
+            const callbacks = context.settleCallbacks;
+            context.settleCallbacks = [];
+            callbacks.forEach(callback => callback());
         };
-    }, [isThreeInitialized, threeContext, setVideoState]);
+    }, [isThreeInitialized, threeContext]);
 }
\ No newline at end of file
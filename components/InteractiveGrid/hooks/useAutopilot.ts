@@ -0,0 +1,133 @@
+import React, { useEffect } from "react";
+import { ThreeContext, InteractiveGridProps } from "./types";
+import { findNearestProjectCell } from "../layout";
+import { AnimationConfig } from "../config";
+
+/**
+ * @file Tours the grid on its own when nobody is using it (if `autopilot` is on),
+ * e.g. for a kiosk or a homepage hero. After `idleTimeout` without any input it:
+ * 1. Drifts the camera along a slow, looping path around where the user left it.
+ * 2. Zooms into a project (picked at random or in order), which also plays its video.
+ * 3. Pauses there, zooms back out, and carries on drifting.
+ * Any pointer, wheel or key input ends the tour right away, leaving the view as it
+ * is, and starts the idle timer again. The tour uses the same `navigateToCell` and
+ * `unzoom` as user input, so it looks exactly like someone browsing the grid.
+ */
+export function useAutopilot(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    props: InteractiveGridProps,
+    navigateToCell: (cellId: any, isInitialZoom: boolean) => void,
+    unzoom: () => void,
+    isCellSelectable: (cellId: any) => boolean
+) {
+    const { autopilot, projects, animation } = props;
+    const options = autopilot === true ? {} : autopilot || null;
+    const isEnabled = !!options;
+    const defaults = { ...AnimationConfig, ...animation };
+    const idleTimeout = options?.idleTimeout ?? defaults.autopilotIdleTimeout;
+    const order = options?.order ?? "random";
+    const driftDuration = options?.driftDuration ?? defaults.autopilotDriftDuration;
+    const pauseDuration = options?.pauseDuration ?? defaults.autopilotPauseDuration;
+
+    useEffect(() => {
+        if (!isEnabled || !isThreeInitialized) return;
+        const { current: context } = threeContext;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+        let phaseTimer: ReturnType<typeof setTimeout> | undefined;
+        let animationFrameId = 0;
+        let isTouring = false;
+        let driftCenter: any = null;
+        let driftTime = 0;
+        let lastFrameTime: number | null = null;
+        let nextIndex = 0;
+
+        /**
+         * Moves the camera along a Lissajous figure around the drift center. It starts
+         * at the center, so the drift begins without a jump.
+         */
+        const drift = (time: number) => {
+            animationFrameId = requestAnimationFrame(drift);
+            if (lastFrameTime !== null) driftTime += (time - lastFrameTime) / 1000;
+            lastFrameTime = time;
+            const { autopilotDriftRadius, autopilotDriftSpeed } = context.config;
+            const radius = autopilotDriftRadius * context.plane.material.uniforms.uCellSize.value;
+            const angle = driftTime * autopilotDriftSpeed;
+            context.targetOffset.set(
+                driftCenter.x + Math.sin(angle) * radius,
+                driftCenter.y + Math.sin(angle * 0.6) * radius * 0.6
+            );
+            // Counts as panning, so `snapToCell` waits until the tour is over.
+            context.lastPanTime = performance.now();
+        };
+
+        /**
+         * Picks the next project to visit, and the copy of it nearest to the camera.
+         * Projects hidden by the active filter are skipped.
+         */
+        const pickCell = () => {
+            const count = projects?.length ?? 0;
+            if (!context.layout || count === 0) return null;
+            const cellSize = context.plane.material.uniforms.uCellSize.value;
+            for (let attempt = 0; attempt < count; attempt++) {
+                const index = order === "sequential" ? nextIndex++ % count : Math.floor(Math.random() * count);
+                const cell = findNearestProjectCell(context.layout, index, context.targetOffset.x / cellSize, context.targetOffset.y / cellSize);
+                const cellId = cell && new context.THREE.Vector2(cell.x, cell.y);
+                if (cellId && isCellSelectable(cellId)) return cellId;
+            }
+            return null;
+        };
+
+        const startDrift = () => {
+            lastFrameTime = null;
+            animationFrameId = requestAnimationFrame(drift);
+            phaseTimer = setTimeout(visitProject, driftDuration);
+        };
+
+        const visitProject = () => {
+            cancelAnimationFrame(animationFrameId);
+            const cellId = pickCell();
+            if (!cellId) return startDrift();
+            navigateToCell(cellId, true);
+            phaseTimer = setTimeout(() => {
+                unzoom();
+                startDrift();
+            }, pauseDuration);
+        };
+
+        const startTour = () => {
+            isTouring = true;
+            if (context.isZoomed) unzoom();
+            driftCenter = context.targetOffset.clone();
+            driftTime = 0;
+            startDrift();
+        };
+
+        const stopTour = () => {
+            isTouring = false;
+            cancelAnimationFrame(animationFrameId);
+            clearTimeout(phaseTimer);
+        };
+
+        /**
+         * Hands control back on any input, and restarts the idle timer.
+         */
+        const onActivity = () => {
+            if (isTouring) stopTour();
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(startTour, idleTimeout);
+        };
+
+        // Listen on the window, so any activity on the page counts, and in the capture
+        // phase, so the tour has stopped before the grid handles the input.
+        const events = ["pointerdown", "pointermove", "wheel", "keydown"];
+        events.forEach(type => window.addEventListener(type, onActivity, { capture: true, passive: true }));
+        onActivity();
+
+        return () => {
+            stopTour();
+            clearTimeout(idleTimer);
+            events.forEach(type => window.removeEventListener(type, onActivity, { capture: true }));
+        };
+    }, [isEnabled, isThreeInitialized, threeContext, projects, idleTimeout, order, driftDuration, pauseDuration, navigateToCell, unzoom, isCellSelectable]);
+}
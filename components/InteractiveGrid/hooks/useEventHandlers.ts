@@ -1,6 +1,6 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import { ThreeContext } from "./types";
-import { AnimationConfig } from "../config";
+import { getReleaseVelocity, stopMomentum } from "./hookUtils";
 
 /**
  * @file Sets up all the necessary DOM event listeners for user interaction.
@@ -8,12 +8,54 @@ import { AnimationConfig } from "../config";
  * touch gestures, scrolling) and translating it into actions for the
  * application. It manages the cursor state and delegates the core
  * interaction logic to the `handleInteraction` callback.
+ * Two-finger pinches and ctrl+wheel (which is also what trackpad pinches send)
+ * are delegated to `handleZoomGesture` instead.
  */
+
+// How long the wheel has to be still before a ctrl+wheel zoom or a wheel pan counts as finished.
+const WHEEL_END_DELAY = 150;
+
 export function useEventHandlers(
     threeContext: React.MutableRefObject<ThreeContext>,
-    handleInteraction: (pos: { x: number; y: number }, delta: any) => void
+    handleInteraction: (pos: { x: number; y: number }, delta: any) => void,
+    handleZoomGesture: (pos: { x: number; y: number }, factor: number) => void,
+    handleZoomGestureEnd: () => void,
+    mountRef: React.RefObject<HTMLDivElement>,
+    handlePanEnd: () => void
 ) {
     const [cursor, setCursor] = useState("grab");
+    // The pointers currently pressed, for detecting two-finger pinches.
+    const activePointers = useRef(new Map<number, { x: number; y: number }>());
+    // Set once a pinch starts (or a touch is cancelled), until every finger is lifted, so lifting them isn't taken as a tap.
+    const isPinching = useRef(false);
+    // The distance between the two fingers at the last pinch update.
+    const pinchDistance = useRef(0);
+    const wheelZoomTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const wheelPanTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // React listens to wheel events passively, so ctrl+wheel can't be stopped from zooming
+    // the whole page there. A native listener takes care of that.
+    useEffect(() => {
+        const currentMount = mountRef.current;
+        if (!currentMount) return;
+        const preventPageZoom = (event: WheelEvent) => {
+            if (event.ctrlKey) event.preventDefault();
+        };
+        currentMount.addEventListener("wheel", preventPageZoom, { passive: false });
+        return () => {
+            currentMount.removeEventListener("wheel", preventPageZoom);
+            if (wheelZoomTimer.current) clearTimeout(wheelZoomTimer.current);
+            if (wheelPanTimer.current) clearTimeout(wheelPanTimer.current);
+        };
+    }, [mountRef]);
+
+    /**
+     * Returns the distance and midpoint between the two pressed pointers.
+     */
+    const getPinch = () => {
+        const [a, b]: { x: number; y: number }[] = Array.from(activePointers.current.values());
+        return { distance: Math.hypot(a.x - b.x, a.y - b.y), center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+    };
 
     /**
      * Handles the start of a drag/touch interaction.
@@ -23,7 +65,21 @@ export function useEventHandlers(
         if (!context.renderer) return;
         // Capture the pointer to ensure events are received even if the cursor leaves the element.
         (event.target as HTMLElement).setPointerCapture(event.pointerId);
+        activePointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+        // A second finger turns the drag into a pinch.
+        if (activePointers.current.size === 2) {
+            isPinching.current = true;
+            context.isDragging = false;
+            pinchDistance.current = getPinch().distance;
+            return;
+        }
+        if (isPinching.current) return;
+        // Catching the grid stops a glide that is still going.
+        stopMomentum(context);
         context.isDragging = true;
+        // Pointer users don't need the keyboard focus ring.
+        if (context.plane) context.plane.material.uniforms.uFocusVisible.value = false;
         setCursor("grabbing");
         context.previousMouse.set(event.clientX, event.clientY);
         context.clickStart.set(event.clientX, event.clientY);
@@ -36,15 +92,48 @@ export function useEventHandlers(
         const { current: context } = threeContext;
         if (!context.renderer) return;
         (event.target as HTMLElement).releasePointerCapture(event.pointerId);
+        if (!activePointers.current.delete(event.pointerId)) return;
+
+        // Lifting the fingers after a pinch isn't a tap or swipe.
+        if (isPinching.current) {
+            if (activePointers.current.size === 1) handleZoomGestureEnd();
+            if (activePointers.current.size === 0) isPinching.current = false;
+            setCursor("grab");
+            return;
+        }
         
         const clickEnd = new context.THREE.Vector2(event.clientX, event.clientY);
         const delta = clickEnd.clone().sub(context.clickStart);
+        // Let the grid glide on at the speed it was flicked with.
+        if (!context.isZoomed) context.panVelocity.copy(getReleaseVelocity(context));
+        context.panSamples = [];
+        // Snap onto the cells once the pan is over. A tap that zooms in calls this off again.
+        context.isSnapPending = !context.isZoomed;
         // Delegate to the interaction hook to handle the logic.
         handleInteraction(clickEnd, delta);
         
         context.isDragging = false;
+        context.lastPanTime = performance.now();
+        setCursor("grab");
+    }, [threeContext, handleInteraction, handleZoomGestureEnd]);
+
+    /**
+     * Forgets a pointer the browser took away, e.g. for an OS gesture, or one whose capture was lost.
+     * The drag or pinch it was part of ends without counting as a tap, swipe or zoom handoff.
+     */
+    const onPointerCancel = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+        const { current: context } = threeContext;
+        // Also called after a normal pointer up, which has already forgotten the pointer.
+        if (!activePointers.current.delete(event.pointerId)) return;
+        context.zoomGesture = null;
+        pinchDistance.current = 0;
+        isPinching.current = activePointers.current.size > 0;
+        if (context.isDragging && !context.isZoomed) context.isSnapPending = true;
+        context.isDragging = false;
+        context.panSamples = [];
+        context.lastPanTime = performance.now();
         setCursor("grab");
-    }, [threeContext, handleInteraction]);
+    }, [threeContext]);
 
     /**
      * Updates the target mouse position as the user moves their cursor.
@@ -52,8 +141,20 @@ export function useEventHandlers(
     const onPointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
         const { current: context } = threeContext;
         if (!context.renderer) return;
+
+        if (activePointers.current.has(event.pointerId)) {
+            activePointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        }
+        if (isPinching.current) {
+            // Spreading the fingers apart zooms in, pinching them together zooms out.
+            if (activePointers.current.size !== 2) return;
+            const { distance, center } = getPinch();
+            if (pinchDistance.current > 0 && distance > 0) handleZoomGesture(center, pinchDistance.current / distance);
+            pinchDistance.current = distance;
+            return;
+        }
         context.targetMousePos.set(event.clientX, event.clientY);
-    }, [threeContext]);
+    }, [threeContext, handleZoomGesture]);
 
     /**
      * Ensures dragging stops if the cursor leaves the window.
@@ -69,7 +170,17 @@ export function useEventHandlers(
      */
     const onWheel = useCallback((event: React.WheelEvent<HTMLDivElement>) => {
         const { current: context } = threeContext;
-        if (!context.renderer || context.isZoomed || !context.plane) return;
+        if (!context.renderer || !context.plane) return;
+
+        // Ctrl+wheel (and trackpad pinches) zoom around the pointer.
+        if (event.ctrlKey) {
+            const deltaY = event.deltaMode === 1 ? event.deltaY * 18 : event.deltaY;
+            handleZoomGesture({ x: event.clientX, y: event.clientY }, Math.exp(deltaY * context.config.wheelZoomSpeed));
+            if (wheelZoomTimer.current) clearTimeout(wheelZoomTimer.current);
+            wheelZoomTimer.current = setTimeout(handleZoomGestureEnd, WHEEL_END_DELAY);
+            return;
+        }
+        if (context.isZoomed) return;
         event.preventDefault();
 
         const { plane, zoom, targetOffset } = context;
@@ -81,9 +192,14 @@ export function useEventHandlers(
         if (event.deltaMode === 1) { deltaX *= 18; deltaY *= 18; } 
         else if (event.deltaMode === 2) { deltaX *= window.innerWidth; deltaY *= window.innerHeight; }
         
-        targetOffset.x += deltaX * AnimationConfig.scrollSpeed * zoom * aspectRatio;
-        targetOffset.y -= deltaY * AnimationConfig.scrollSpeed * zoom;
-    }, [threeContext]);
+        const { scrollSpeed } = context.config;
+        targetOffset.x += deltaX * scrollSpeed * zoom * aspectRatio;
+        targetOffset.y -= deltaY * scrollSpeed * zoom;
+        context.lastPanTime = performance.now();
+        context.isSnapPending = true;
+        if (wheelPanTimer.current) clearTimeout(wheelPanTimer.current);
+        wheelPanTimer.current = setTimeout(handlePanEnd, WHEEL_END_DELAY);
+    }, [threeContext, handleZoomGesture, handleZoomGestureEnd, handlePanEnd]);
 
     return {
         cursor,
@@ -92,6 +208,8 @@ export function useEventHandlers(
             onPointerUp,
             onPointerMove,
             onPointerLeave,
+            onPointerCancel,
+            onLostPointerCapture: onPointerCancel,
             onWheel,
         },
     };
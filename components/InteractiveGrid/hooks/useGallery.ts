@@ -0,0 +1,144 @@
+import React, { useState, useCallback, useEffect } from "react";
+import { Project, ProjectMedia } from "../../../types";
+import { ThreeContext } from "./types";
+import { createPlaceholderTexture } from "./textureUtils";
+
+/**
+ * @file Manages the media gallery of the zoomed project.
+ * This hook is responsible for:
+ * - Building the list of gallery items (the cover image followed by the project's `media`).
+ * - Loading each still as its own high-res texture, rather than the small atlas entry.
+ * - Playing video items through the shared video element (see useVideoManager).
+ * - Crossfading in the shader from the previous item to the new one. The animation
+ *   loop drives the fade, using `galleryMix` on the context.
+ * - Exposing the current items and index to React, for the arrows and dots.
+ * Until the user steps through the gallery, the cell looks exactly as it does without one.
+ */
+
+const EMPTY_ITEMS: ProjectMedia[] = [];
+
+/**
+ * Builds the gallery for a project. Projects without extra media have no gallery.
+ */
+const getGalleryItems = (project: Project | null): ProjectMedia[] => {
+    if (!project?.media?.length) return EMPTY_ITEMS;
+    const media = project.media.filter(item => item.src !== project.image);
+    return media.length > 0 ? [{ type: "image", src: project.image }, ...media] : EMPTY_ITEMS;
+};
+
+export function useGallery(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    setVideoState: (cellId: any, src?: string) => void
+) {
+    const [items, setItems] = useState<ProjectMedia[]>(EMPTY_ITEMS);
+    const [index, setIndex] = useState(0);
+
+    /**
+     * Disposes of a gallery texture. The video texture is shared, so it's left alone.
+     */
+    const releaseTexture = useCallback((texture: any) => {
+        if (texture && texture !== threeContext.current.videoTextureRef) texture.dispose();
+    }, [threeContext]);
+
+    /**
+     * Hides the gallery in the shader and frees its textures.
+     */
+    const resetTextures = useCallback(() => {
+        const { current: context } = threeContext;
+        if (!context.plane) return;
+        const { uniforms } = context.plane.material;
+        releaseTexture(uniforms.uGalleryTexture.value);
+        releaseTexture(uniforms.uGalleryPrevTexture.value);
+        uniforms.uGalleryTexture.value = null;
+        uniforms.uGalleryPrevTexture.value = null;
+        uniforms.uGalleryActive.value = false;
+        context.galleryMix = 1.0;
+    }, [threeContext, releaseTexture]);
+
+    /**
+     * Sets up the gallery for a newly zoomed project.
+     */
+    const open = useCallback((cellId: any, project: Project | null) => {
+        const { current: context } = threeContext;
+        resetTextures();
+        const galleryItems = getGalleryItems(project);
+        context.gallery = galleryItems.length > 0 ? { cellId: cellId.clone(), items: galleryItems, index: 0, nonce: 0 } : null;
+        setItems(galleryItems);
+        setIndex(0);
+    }, [threeContext, resetTextures]);
+
+    /**
+     * Closes the gallery, e.g. when the user zooms back out.
+     */
+    const close = useCallback(() => {
+        threeContext.current.gallery = null;
+        resetTextures();
+        setItems(EMPTY_ITEMS);
+        setIndex(0);
+    }, [threeContext, resetTextures]);
+
+    /**
+     * Shows a gallery item, crossfading from the current one. Indices wrap around.
+     */
+    const goTo = useCallback(async (itemIndex: number) => {
+        const { current: context } = threeContext;
+        const { gallery, plane, THREE } = context;
+        if (!gallery || !plane) return;
+
+        const count = gallery.items.length;
+        const nextIndex = ((itemIndex % count) + count) % count;
+        if (nextIndex === gallery.index) return;
+        gallery.index = nextIndex;
+        const nonce = ++gallery.nonce;
+        setIndex(nextIndex);
+
+        const item = gallery.items[nextIndex];
+        let texture: any;
+        if (item.type === "video") {
+            setVideoState(gallery.cellId, item.src);
+            texture = context.videoTextureRef;
+        } else {
+            const textureLoader = new THREE.TextureLoader();
+            textureLoader.setCrossOrigin("");
+            texture = await textureLoader.loadAsync(item.src).catch((err: unknown) => {
+                console.warn(`Could not load gallery image "${item.src}". Using placeholder.`, err);
+                return createPlaceholderTexture(THREE);
+            });
+            // Drop the result if the user stepped again, or left the gallery, while it was loading.
+            if (nonce !== gallery.nonce || context.gallery !== gallery) {
+                texture.dispose();
+                return;
+            }
+            setVideoState(null);
+        }
+
+        // The item on screen becomes the one we fade out of. On the first step,
+        // that's the cell's normal image (or its preview video).
+        const { uniforms } = plane.material;
+        const previousTexture = uniforms.uGalleryTexture.value;
+        if (uniforms.uGalleryPrevTexture.value !== previousTexture) releaseTexture(uniforms.uGalleryPrevTexture.value);
+        uniforms.uGalleryPrevTexture.value = uniforms.uGalleryActive.value ? previousTexture : null;
+        uniforms.uGalleryFromBase.value = !uniforms.uGalleryActive.value;
+        uniforms.uGalleryTexture.value = texture;
+        uniforms.uGalleryCellId.value.copy(gallery.cellId);
+        uniforms.uGalleryActive.value = true;
+        context.galleryMix = 0.0;
+    }, [threeContext, setVideoState, releaseTexture]);
+
+    /**
+     * Steps forwards (1) or backwards (-1) through the gallery.
+     */
+    const step = useCallback((direction: number) => {
+        const { gallery } = threeContext.current;
+        if (gallery) goTo(gallery.index + direction);
+    }, [threeContext, goTo]);
+
+    // Free the gallery textures when the component unmounts.
+    useEffect(() => {
+        if (!isThreeInitialized) return;
+        return () => resetTextures();
+    }, [isThreeInitialized, resetTextures]);
+
+    return { items, index, open, close, goTo, step };
+}
@@ -0,0 +1,130 @@
+import React, { useImperativeHandle } from "react";
+import { ThreeContext, InteractiveGridHandle } from "./types";
+import { getCellBlock, getLayoutBounds, getProjectIndexByCellId, stopMomentum, toSourceIndex, fromSourceIndex } from "./hookUtils";
+import { findNearestProjectCell } from "../layout";
+
+/**
+ * @file Exposes the imperative controller API (see `InteractiveGridHandle`) through a ref.
+ * The methods only set camera *targets*, exactly like user input does, so the
+ * animation loop's spring and lerps still do the moving. Each method returns a promise
+ * that the animation loop resolves once the camera has come to rest.
+ * Project indices are positions in the list the grid was given, including projects
+ * that validation left out (see validation.ts).
+ */
+export function useGridController(
+    ref: React.Ref<InteractiveGridHandle> | undefined,
+    threeContext: React.MutableRefObject<ThreeContext>,
+    navigateToCell: (cellId: any, isInitialZoom: boolean) => void,
+    unzoom: () => void,
+    isCellSelectable: (cellId: any) => boolean,
+    projectCount: number,
+    sourceIndices: number[]
+) {
+    useImperativeHandle(ref, () => {
+        /**
+         * Returns a promise that resolves the next time the camera comes to rest.
+         */
+        const waitForSettle = () => new Promise<void>(resolve => {
+            const { current: context } = threeContext;
+            // Before the scene is set up there's no animation loop to wait for.
+            if (!context.plane) return resolve();
+            context.settleCallbacks.push(resolve);
+        });
+
+        /**
+         * Resolves a controller target to the ID of a block on the grid.
+         * A project index picks the copy of that project nearest to the camera.
+         */
+        const resolveCell = (target: number | { x: number; y: number }) => {
+            const { current: context } = threeContext;
+            const { plane, layout, THREE } = context;
+            if (!plane || !layout) return null;
+
+            if (typeof target === "number") {
+                const index = fromSourceIndex(target, sourceIndices);
+                if (index === -1) return null;
+                const cellSize = plane.material.uniforms.uCellSize.value;
+                const cell = findNearestProjectCell(layout, index, context.targetOffset.x / cellSize, context.targetOffset.y / cellSize);
+                return cell ? new THREE.Vector2(cell.x, cell.y) : null;
+            }
+            return getCellBlock(new THREE.Vector2(target.x, target.y), context).cellId;
+        };
+
+        const handle: InteractiveGridHandle = {
+            flyTo: (target) => {
+                const { current: context } = threeContext;
+                const cellId = resolveCell(target);
+                if (!cellId) return Promise.resolve();
+
+                if (context.isZoomed) {
+                    if (!isCellSelectable(cellId)) return Promise.resolve();
+                    navigateToCell(cellId, false);
+                } else {
+                    stopMomentum(context);
+                    const block = getCellBlock(cellId, context);
+                    const cellSize = context.plane.material.uniforms.uCellSize.value;
+                    context.targetOffset.copy(block.cellId.clone().add(block.span.clone().multiplyScalar(0.5))).multiplyScalar(cellSize);
+                }
+                return waitForSettle();
+            },
+
+            zoomTo: (target) => {
+                const cellId = resolveCell(target);
+                // Empty cells and projects hidden by the filter can't be zoomed into, just like with a tap.
+                if (!cellId || !isCellSelectable(cellId)) return Promise.resolve();
+                navigateToCell(cellId, !threeContext.current.isZoomed);
+                return waitForSettle();
+            },
+
+            unzoom: () => {
+                if (threeContext.current.isZoomed) unzoom();
+                return waitForSettle();
+            },
+
+            panBy: (columns, rows) => {
+                const { current: context } = threeContext;
+                if (!context.plane) return Promise.resolve();
+                stopMomentum(context);
+                const cellSize = context.plane.material.uniforms.uCellSize.value;
+                context.targetOffset.x += columns * cellSize;
+                context.targetOffset.y += rows * cellSize;
+                return waitForSettle();
+            },
+
+            resetView: () => {
+                const { current: context } = threeContext;
+                if (!context.plane) return Promise.resolve();
+                stopMomentum(context);
+
+                // Return to where the grid starts: the middle of a finite layout, or the origin.
+                const bounds = getLayoutBounds(context.layout, context.plane.material.uniforms.uCellSize.value);
+                const x = bounds ? (bounds.minX + bounds.maxX) / 2 : 0;
+                const y = bounds ? (bounds.minY + bounds.maxY) / 2 : 0;
+                if (context.isZoomed) {
+                    // Zooming out returns to the view saved before zooming in. In controlled mode that
+                    // only happens once the owner passes the prop back, so save the reset view there.
+                    context.lastOffset.set(x, y);
+                    context.lastZoom = context.config.defaultZoomLevel;
+                    unzoom();
+                } else {
+                    context.targetOffset.set(x, y);
+                    context.targetZoom = context.config.defaultZoomLevel;
+                }
+                return waitForSettle();
+            },
+
+            getState: () => {
+                const { current: context } = threeContext;
+                return {
+                    offset: { x: context.offset?.x ?? 0, y: context.offset?.y ?? 0 },
+                    zoom: context.zoom,
+                    isZoomed: context.isZoomed,
+                    zoomedCellId: context.zoomedCellId ? { x: context.zoomedCellId.x, y: context.zoomedCellId.y } : null,
+                    zoomedProjectIndex: toSourceIndex(getProjectIndexByCellId(context.zoomedCellId, context.layout), sourceIndices),
+                    projectCount,
+                };
+            },
+        };
+        return handle;
+    }, [threeContext, navigateToCell, unzoom, isCellSelectable, projectCount, sourceIndices]);
+}
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from "react";
+import { ThreeContext, InteractiveGridProps, GridProjectEvent } from "./types";
+import { getCellBlock, getProjectIndexByCellId, toSourceIndex } from "./hookUtils";
+
+/**
+ * @file Fires the event callbacks (`onHoverProjectChange`, `onZoomStart`, ...) of the grid.
+ * The other hooks, including the animation loop, report what happened through
+ * `emitEvent` on the context. This hook turns that into a `GridProjectEvent` and
+ * calls the matching prop. The props are read through a ref, so inline callbacks
+ * always see the latest render and never restart the animation loop.
+ * Hover changes are reported per project block, so moving around inside a block,
+ * or across empty cells, doesn't fire the callback again.
+ * The reported index is the project's position in the list the grid was given (see validation.ts).
+ */
+export function useGridEvents(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    props: InteractiveGridProps,
+    sourceIndices: number[]
+) {
+    const propsRef = useRef(props);
+    const sourceIndicesRef = useRef(sourceIndices);
+    // The block last reported by `onHoverProjectChange`, or "" for none.
+    const lastHoverKey = useRef("");
+
+    useEffect(() => {
+        propsRef.current = props;
+        sourceIndicesRef.current = sourceIndices;
+    });
+
+    useEffect(() => {
+        const { current: context } = threeContext;
+
+        /**
+         * Describes the project shown in a block, or returns null for an empty block.
+         */
+        const getProjectEvent = (cellId: any): GridProjectEvent | null => {
+            if (!cellId || !context.layout) return null;
+            const block = getCellBlock(cellId, context);
+            const index = getProjectIndexByCellId(block.cellId, context.layout);
+            const project = propsRef.current.projects?.[index];
+            if (!project) return null;
+            return { project, index: toSourceIndex(index, sourceIndicesRef.current), cellId: { x: block.cellId.x, y: block.cellId.y } };
+        };
+
+        context.emitEvent = (name, cellId, details) => {
+            const event = getProjectEvent(cellId);
+            if (name === "onHoverProjectChange") {
+                const key = event ? `${event.index}:${event.cellId.x},${event.cellId.y}` : "";
+                if (key === lastHoverKey.current) return;
+                lastHoverKey.current = key;
+                propsRef.current.onHoverProjectChange?.(event);
+            } else if (event && name === "onNavigate") {
+                propsRef.current.onNavigate?.({ ...event, direction: details?.direction ?? "programmatic" });
+            } else if (event) {
+                propsRef.current[name]?.(event);
+            }
+        };
+        return () => {
+            context.emitEvent = () => {};
+        };
+    }, [threeContext]);
+}
@@ -0,0 +1,25 @@
+import { useState, useEffect } from "react";
+import { GridTheme, GridThemeSetting, resolveGridTheme } from "../theme";
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * @file Resolves a `theme` setting into the colors to show right now.
+ * For "auto" and light/dark pairs it watches the system's `prefers-color-scheme`
+ * setting, so the grid switches over (and fades, see useUniforms) as soon as it changes.
+ * Also exported, so the page around the grid can follow the same theme.
+ */
+export function useGridTheme(setting: GridThemeSetting = "dark"): GridTheme {
+    const [prefersDark, setPrefersDark] = useState(() => window.matchMedia?.(DARK_SCHEME_QUERY).matches ?? true);
+
+    useEffect(() => {
+        const query = window.matchMedia?.(DARK_SCHEME_QUERY);
+        if (!query) return;
+        const onChange = () => setPrefersDark(query.matches);
+        onChange();
+        query.addEventListener("change", onChange);
+        return () => query.removeEventListener("change", onChange);
+    }, []);
+
+    return resolveGridTheme(setting, prefersDark);
+}
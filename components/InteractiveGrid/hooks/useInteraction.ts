@@ -1,25 +1,58 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import { Project } from "../../../types";
-import { ThreeContext, InteractiveGridProps } from "./types";
-import { getProjectByCellId, screenToWorld } from "./hookUtils";
-import { AnimationConfig } from "../config";
+import { ThreeContext, InteractiveGridProps, GridNavigationEvent, ProjectOpenEvent } from "./types";
+import { getProjectByCellId, getProjectIndexByCellId, getCellBlock, matchesFilter, screenToWorld, isOnBlockImage, stopMomentum, toSourceIndex, fromSourceIndex } from "./hookUtils";
+import { findNearestProjectCell } from "../layout";
+import { useGallery } from "./useGallery";
+import { slugify, writeUrlState } from "../urlState";
+
+// The key under which the zoomed cell is stored in `history.state`.
+const HISTORY_KEY = "interactiveGrid";
 
 /**
  * @file Manages the core user interaction logic. This includes:
  * - Handling the "zoom in" action when a user taps a cell.
  * - Handling the "unzoom" action.
  * - Navigating between adjacent projects while zoomed in (swiping).
+ * - Browsing the zoomed project's gallery by swiping across its image.
+ * - Zooming continuously (pinch, ctrl+wheel), and handing off to the zoomed-in state.
+ * - Treating the cells of a featured (spanned) project as one block.
+ * - Skipping empty cells and cells whose project is hidden by the active filter.
  * - Managing the state of the currently zoomed project for the UI.
+ * - Writing the zoomed project and camera position into the URL (if `urlSync` is on).
+ * - Adding browser history entries (if `history` is on), so the Back button zooms out instead of leaving the page.
+ * - Reporting zooms and moves between projects to the event callbacks (see useGridEvents).
+ * - Opening the zoomed project, through its link or a second tap (see `openMode`).
+ * - Following the `zoomedProjectIndex` prop in controlled mode. Every zoom change then
+ *   goes through the owner: it's reported, and only made once the prop comes back.
+ *   The prop and the reported indices are positions in the list the grid was given (see validation.ts).
  * - Ensuring the "View Project" link is accessible.
  */
 export function useInteraction(
     threeContext: React.MutableRefObject<ThreeContext>,
-    setVideoState: (cellId: any) => void,
+    setVideoState: (cellId: any, src?: string) => void,
     props: InteractiveGridProps,
-    linkRef: React.RefObject<HTMLAnchorElement>
+    linkRef: React.RefObject<HTMLAnchorElement>,
+    gallery: ReturnType<typeof useGallery>,
+    isThreeInitialized: boolean,
+    sourceIndices: number[]
 ) {
-    const { projects } = props;
+    const { projects, activeFilter, urlSync, history = "none" } = props;
+    const { minZoom, maxZoom, openMode = "newTab", onOpen, openOnSecondTap } = props;
+    const { zoomedProjectIndex, onZoomedProjectIndexChange } = props;
+    const isControlled = zoomedProjectIndex !== undefined;
+    const { open: openGallery, close: closeGallery, step: stepGallery } = gallery;
     const [zoomedProject, setZoomedProject] = useState<Project | null>(null);
+    // Set while the view follows a Back/Forward navigation, so it doesn't add new entries.
+    const isFollowingHistory = useRef(false);
+    // Set while the view follows the `zoomedProjectIndex` prop, so the change isn't reported back.
+    const isFollowingProp = useRef(false);
+    // Read through a ref, so an inline callback doesn't re-create every handler on each render.
+    const onZoomedProjectIndexChangeRef = useRef(onZoomedProjectIndexChange);
+
+    useEffect(() => {
+        onZoomedProjectIndexChangeRef.current = onZoomedProjectIndexChange;
+    }, [onZoomedProjectIndexChange]);
 
     // This effect ensures that when a project is zoomed, the "View Project"
     // link becomes focusable, which is important for keyboard navigation and accessibility.
@@ -31,43 +64,322 @@ export function useInteraction(
     }, [zoomedProject, linkRef]);
     
     /**
-     * Navigates the view to center on a specific cell ID.
+     * Writes the zoomed project and camera position into the URL, so the view can be shared.
+     * While zoomed, the position to return to after zooming out is stored.
+     */
+    const syncUrl = useCallback((project: Project | null) => {
+        if (!urlSync) return;
+        const { isZoomed, zoomedCellId, lastOffset, targetOffset } = threeContext.current;
+        writeUrlState(urlSync, {
+            slug: isZoomed && project ? slugify(project.title) : undefined,
+            cell: isZoomed && zoomedCellId ? { x: zoomedCellId.x, y: zoomedCellId.y } : undefined,
+            offset: isZoomed ? lastOffset : targetOffset,
+        });
+    }, [threeContext, urlSync]);
+
+    /**
+     * Records a zoom in the browser history. The first zoom always adds an entry, so Back
+     * zooms out. Moving between projects adds one per project in "cell" mode, and
+     * otherwise only updates the current entry.
+     */
+    const recordHistory = useCallback((cellId: any, isInitialZoom: boolean) => {
+        const { current: context } = threeContext;
+        if (history === "none" || isFollowingHistory.current) return;
+        const shouldPush = isInitialZoom || history === "cell";
+        if (shouldPush) context.historyDepth++;
+        const state = { ...window.history.state, [HISTORY_KEY]: { x: cellId.x, y: cellId.y, depth: context.historyDepth } };
+        if (shouldPush) window.history.pushState(state, "");
+        else window.history.replaceState(state, "");
+    }, [threeContext, history]);
+
+    /**
+     * Navigates the view to center on a specific cell ID. If the cell is part of a
+     * featured project's block, the whole block is centered and fitted to the view.
+     * @param direction - What the user did to move here, for `onNavigate`.
      */
-    const navigateToCell = useCallback((cellId: any, isInitialZoom: boolean) => {
+    const navigateToCell = useCallback((cellId: any, isInitialZoom: boolean, direction: GridNavigationEvent["direction"] = "programmatic") => {
         const { current: context } = threeContext;
         if (!context.plane) return;
+        stopMomentum(context);
 
-        const project = getProjectByCellId(cellId, projects);
+        const block = getCellBlock(cellId, context);
+        const index = getProjectIndexByCellId(block.cellId, context.layout);
+        const previousIndex = context.isZoomed ? getProjectIndexByCellId(context.zoomedCellId, context.layout) : null;
+        if (index !== previousIndex && !isFollowingProp.current) {
+            onZoomedProjectIndexChangeRef.current?.(toSourceIndex(index, sourceIndices));
+            // A controlled zoom waits for the owner to pass the new index back.
+            if (isControlled) {
+                context.zoomRequest = { cellId: block.cellId.clone(), fromHistory: isFollowingHistory.current, time: performance.now() };
+                return;
+            }
+        }
+        if (isInitialZoom) context.emitEvent("onZoomStart", block.cellId);
+        else if (!block.cellId.equals(context.zoomedCellId)) context.emitEvent("onNavigate", block.cellId, { direction });
+        const project = getProjectByCellId(block.cellId, projects, context.layout);
         setZoomedProject(project);
-        if (setVideoState) setVideoState(cellId);
+        openGallery(block.cellId, project);
+        if (setVideoState) setVideoState(block.cellId);
 
         // If this is the first zoom action, save the current camera state.
         if (isInitialZoom) {
             context.lastOffset.copy(context.targetOffset);
             context.lastZoom = context.targetZoom;
-            context.targetZoom = AnimationConfig.zoomedInLevel;
             context.targetDistortion = 0.0; // Remove distortion when zoomed.
             context.isZoomed = true;
+            context.isZoomSettled = false;
         }
-        // Calculate the target position to center the new cell.
+        // Zoom out just enough to fit a bigger block.
+        context.targetZoom = context.config.zoomedInLevel * Math.max(block.span.x, block.span.y);
+        // Calculate the target position to center the new block.
         const currentCellSize = context.plane.material.uniforms.uCellSize.value;
-        context.targetOffset.copy(cellId.clone().addScalar(0.5)).multiplyScalar(currentCellSize);
-        context.zoomedCellId = cellId.clone();
-    }, [threeContext, projects, setVideoState]);
+        context.targetOffset.copy(block.cellId.clone().add(block.span.clone().multiplyScalar(0.5))).multiplyScalar(currentCellSize);
+        context.zoomedCellId = block.cellId.clone();
+        recordHistory(block.cellId, isInitialZoom);
+        syncUrl(project);
+    }, [threeContext, projects, setVideoState, openGallery, recordHistory, syncUrl, isControlled, sourceIndices]);
 
     /**
      * Returns the view to the last saved pre-zoom state.
      */
     const unzoom = useCallback(() => {
         const { current: context } = threeContext;
+        if (context.isZoomed && !isFollowingProp.current) {
+            onZoomedProjectIndexChangeRef.current?.(null);
+            if (isControlled) {
+                context.zoomRequest = { cellId: null, fromHistory: isFollowingHistory.current, time: performance.now() };
+                return;
+            }
+        }
+        if (context.isZoomed) context.emitEvent("onUnzoom", context.zoomedCellId);
         context.targetOffset.copy(context.lastOffset);
         context.targetZoom = context.lastZoom;
         context.targetDistortion = 1.0; // Restore distortion.
         context.isZoomed = false;
         context.zoomedCellId = null;
+        closeGallery();
         if (setVideoState) setVideoState(null);
         setZoomedProject(null);
-    }, [threeContext, setVideoState]);
+
+        // Zooming out in the UI also steps back over the entries the zoom added,
+        // which returns the URL to where it was before zooming in.
+        if (context.historyDepth > 0 && !isFollowingHistory.current) {
+            window.history.go(-context.historyDepth);
+            context.historyDepth = 0;
+        } else {
+            syncUrl(null);
+        }
+    }, [threeContext, setVideoState, closeGallery, syncUrl, isControlled]);
+
+    // In controlled mode, follow the `zoomedProjectIndex` prop: zoom into the block the user
+    // asked for, or else the copy of the project nearest to the camera, or zoom out.
+    // A project hidden by the active filter counts as none.
+    useEffect(() => {
+        const { current: context } = threeContext;
+        const { layout, plane, THREE } = context;
+        if (!isControlled || !isThreeInitialized || !layout || !plane) return;
+        const currentIndex = context.isZoomed ? getProjectIndexByCellId(context.zoomedCellId, layout) : null;
+        // A project validation left out has no index on the grid, and counts as none.
+        const requestedIndex = zoomedProjectIndex !== null ? fromSourceIndex(zoomedProjectIndex, sourceIndices) : -1;
+        const targetProject = projects[requestedIndex];
+        const isHidden = !!targetProject && !matchesFilter(targetProject, activeFilter);
+        const targetIndex = targetProject && !isHidden ? requestedIndex : null;
+        if (targetIndex === currentIndex) return;
+        // Let the owner know the hidden project isn't shown.
+        if (isHidden) onZoomedProjectIndexChangeRef.current?.(null);
+
+        const request = context.zoomRequest;
+        isFollowingProp.current = true;
+        // A change the user asked for with Back/Forward mustn't add history entries once it's made either.
+        isFollowingHistory.current = !!request?.fromHistory;
+        if (targetIndex === null) {
+            unzoom();
+        } else {
+            let cellId = request?.cellId;
+            if (getProjectIndexByCellId(cellId, layout) !== targetIndex) {
+                const cellSize = plane.material.uniforms.uCellSize.value;
+                const nearest = findNearestProjectCell(layout, targetIndex, context.targetOffset.x / cellSize, context.targetOffset.y / cellSize);
+                cellId = nearest ? new THREE.Vector2(nearest.x, nearest.y) : null;
+            }
+            if (cellId) navigateToCell(cellId, !context.isZoomed);
+        }
+        // The change has been made, so controller calls waiting on it can wait for the camera now.
+        context.zoomRequest = null;
+        isFollowingProp.current = false;
+        isFollowingHistory.current = false;
+    }, [threeContext, isControlled, isThreeInitialized, zoomedProjectIndex, projects, sourceIndices, activeFilter, navigateToCell, unzoom]);
+
+    // The owner re-rendered without passing the requested index back, so it turned the request down.
+    // Runs after the effect above, which takes the request when the prop does follow.
+    useEffect(() => {
+        threeContext.current.zoomRequest = null;
+    });
+
+    // Follow the Back and Forward buttons: zoom into the cell stored in the entry, or zoom out.
+    useEffect(() => {
+        if (history === "none") return;
+        const onPopState = (event: PopStateEvent) => {
+            const { current: context } = threeContext;
+            const cell = event.state?.[HISTORY_KEY];
+            isFollowingHistory.current = true;
+            if (cell) {
+                context.historyDepth = cell.depth;
+                const cellId = new context.THREE.Vector2(cell.x, cell.y);
+                if (!context.zoomedCellId?.equals(cellId)) navigateToCell(cellId, !context.isZoomed);
+            } else {
+                context.historyDepth = 0;
+                if (context.isZoomed) unzoom();
+                // Zooming out in the UI already unzoomed before going back. The entry it lands on
+                // may still have a zoomed project in its URL (e.g. the deep link the page was opened
+                // with), so write the current view into it.
+                else syncUrl(null);
+            }
+            isFollowingHistory.current = false;
+        };
+        window.addEventListener("popstate", onPopState);
+        return () => window.removeEventListener("popstate", onPopState);
+    }, [history, threeContext, navigateToCell, unzoom, syncUrl]);
+
+    /**
+     * Checks whether a cell shows a project that passes the active filter.
+     */
+    const isCellSelectable = useCallback((cellId: any) => {
+        const project = getProjectByCellId(cellId, projects, threeContext.current.layout);
+        return matchesFilter(project, activeFilter);
+    }, [threeContext, projects, activeFilter]);
+
+    // If the filter changes while zoomed in on a project that no longer matches, zoom back out.
+    // This happens even in controlled mode (the owner is still told), so a hidden project is never shown.
+    useEffect(() => {
+        const { current: context } = threeContext;
+        if (!context.isZoomed || !context.zoomedCellId || isCellSelectable(context.zoomedCellId)) return;
+        if (isControlled) onZoomedProjectIndexChangeRef.current?.(null);
+        isFollowingProp.current = isControlled;
+        unzoom();
+        isFollowingProp.current = false;
+    }, [threeContext, isCellSelectable, unzoom, isControlled]);
+
+    /**
+     * Finds the next block in a direction that shows a project passing the filter.
+     * Each step leaves the current block through its edge, so a featured project is
+     * skipped over as a whole. The search is capped so a filter with no visible
+     * matches (or the edge of a "finite" layout) can't loop forever.
+     * @param cellId - The block to start from.
+     * @param axis - "x" to move between columns, "y" to move between rows.
+     * @param direction - 1 to move right/up (in world space), -1 to move left/down.
+     * @returns The ID of the next block, or null if there is none.
+     */
+    const findNextCell = useCallback((cellId: any, axis: "x" | "y", direction: number) => {
+        const { current: context } = threeContext;
+        let block = getCellBlock(cellId, context);
+        for (let i = 0; i < projects.length; i++) {
+            const nextCell = block.cellId.clone();
+            if (axis === "x") nextCell.x += direction > 0 ? block.span.x : -1;
+            else nextCell.y += direction > 0 ? block.span.y : -1;
+            block = getCellBlock(nextCell, context);
+            if (isCellSelectable(nextCell)) return block.cellId;
+        }
+        return null;
+    }, [threeContext, projects, isCellSelectable]);
+
+    /**
+     * Activates a block, as if it was tapped: zooms into it, switches to it while zoomed,
+     * or zooms out if it's the block that's already zoomed.
+     */
+    const tapCell = useCallback((cellId: any, direction: GridNavigationEvent["direction"] = "tap") => {
+        const { current: context } = threeContext;
+        if (context.isZoomed && cellId.equals(context.zoomedCellId)) unzoom();
+        else if (isCellSelectable(cellId)) navigateToCell(cellId, !context.isZoomed, direction);
+    }, [threeContext, navigateToCell, unzoom, isCellSelectable]);
+
+    /**
+     * Moves from the zoomed project to the next one in a direction.
+     */
+    const stepZoomed = useCallback((axis: "x" | "y", direction: number, source: GridNavigationEvent["direction"]) => {
+        const { current: context } = threeContext;
+        if (!context.isZoomed || !context.zoomedCellId) return;
+        const nextCell = findNextCell(context.zoomedCellId, axis, direction);
+        if (nextCell) navigateToCell(nextCell, false, source);
+    }, [threeContext, findNextCell, navigateToCell]);
+
+    /**
+     * Zooms the grid continuously around a point on the screen, e.g. for a pinch or ctrl+wheel.
+     * The world position under the point stays where it is. Zooming out of a zoomed-in
+     * project returns to the grid.
+     * @param screenPos - The point to zoom around, in pixels.
+     * @param factor - How much to scale the zoom level by (below 1 zooms in).
+     */
+    const handleZoomGesture = useCallback((screenPos: { x: number; y: number }, factor: number) => {
+        const { current: context } = threeContext;
+        if (!context.plane) return;
+        if (context.isZoomed) {
+            if (factor > 1) unzoom();
+            return;
+        }
+
+        if (!context.zoomGesture) context.zoomGesture = { startZoom: context.targetZoom, anchorWorld: null };
+        const { zoomedInLevel, maxZoomLevel } = context.config;
+        const nextZoom = Math.min(Math.max(context.targetZoom * factor, minZoom ?? zoomedInLevel), maxZoom ?? maxZoomLevel);
+        // The point's position relative to the camera, per unit of zoom. Moving the camera by
+        // the same amount the point would drift keeps it fixed under the pointer.
+        const local = screenToWorld(screenPos, context).sub(context.offset).divideScalar(context.zoom);
+        context.targetOffset.add(local.clone().multiplyScalar(context.targetZoom - nextZoom));
+        context.targetZoom = nextZoom;
+        context.zoomGesture.anchorWorld = local.multiplyScalar(nextZoom).add(context.targetOffset);
+    }, [threeContext, unzoom, minZoom, maxZoom]);
+
+    /**
+     * Ends a continuous zoom. If the user zoomed in far enough, the cell under the
+     * pointer is zoomed into, just as if it was tapped.
+     */
+    const handleZoomGestureEnd = useCallback(() => {
+        const { current: context } = threeContext;
+        const gesture = context.zoomGesture;
+        context.zoomGesture = null;
+        if (!gesture?.anchorWorld || context.isZoomed || context.targetZoom > context.config.zoomHandoffLevel) return;
+
+        const cellSize = context.plane.material.uniforms.uCellSize.value;
+        const cellId = getCellBlock(gesture.anchorWorld.clone().divideScalar(cellSize), context).cellId;
+        if (!isCellSelectable(cellId)) return;
+        navigateToCell(cellId, true);
+        // Zooming back out returns to the zoom level from before the gesture, not the in-between one.
+        context.lastZoom = gesture.startZoom;
+    }, [threeContext, navigateToCell, isCellSelectable]);
+
+    /**
+     * Opens the zoomed project. `onOpen` gets to handle it first, then the project's `href`
+     * is opened as set by `openMode`. A link click is left to the browser, unless prevented.
+     * @param trigger - Whether the "View Project" link or the zoomed image was used.
+     * @param nativeEvent - The DOM event of a link click.
+     */
+    const openProject = useCallback((trigger: ProjectOpenEvent["trigger"], nativeEvent?: Event) => {
+        const { current: context } = threeContext;
+        const project = getProjectByCellId(context.zoomedCellId, projects, context.layout);
+        if (!context.isZoomed || !project) return;
+
+        const event: ProjectOpenEvent = {
+            trigger,
+            nativeEvent,
+            defaultPrevented: false,
+            preventDefault: () => {
+                event.defaultPrevented = true;
+                nativeEvent?.preventDefault();
+            },
+        };
+        if (openMode === "custom") event.preventDefault();
+        onOpen?.(project, event);
+        context.emitEvent("onOpenProject", context.zoomedCellId);
+        if (event.defaultPrevented || trigger === "link" || !project.href) return;
+
+        if (openMode === "sameTab") window.location.assign(project.href);
+        else window.open(project.href, "_blank", "noopener,noreferrer");
+    }, [threeContext, projects, openMode, onOpen]);
+
+    /**
+     * Called when a wheel pan has finished. Remembers the new position in the URL.
+     */
+    const handlePanEnd = useCallback(() => {
+        if (!threeContext.current.isZoomed) syncUrl(null);
+    }, [threeContext, syncUrl]);
 
     /**
      * The main interaction handler, called when a user finishes a click/touch.
@@ -80,28 +392,48 @@ export function useInteraction(
 
         const worldCoord = screenToWorld(clickPos, context);
         const currentCellSize = plane.material.uniforms.uCellSize.value;
-        const tappedCellId = new THREE.Vector2(Math.floor(worldCoord.x / currentCellSize), Math.floor(worldCoord.y / currentCellSize));
+        const tappedCell = new THREE.Vector2(worldCoord.x / currentCellSize, worldCoord.y / currentCellSize);
+        // Every cell of a featured project resolves to its block's ID.
+        const tappedCellId = getCellBlock(tappedCell, context).cellId;
         
-        const isTap = delta.length() < AnimationConfig.tapThreshold;
-        const isSwipe = delta.length() > AnimationConfig.swipeThreshold;
-
-        if (isZoomed) {
-            if (isTap) {
-                // If tapped on the same cell, unzoom. Otherwise, navigate to the new cell.
-                if (tappedCellId.equals(zoomedCellId)) unzoom();
-                else navigateToCell(tappedCellId, false);
-            } else if (isSwipe) {
-                // If swiped, navigate to the adjacent cell in the swipe direction.
-                const nextCell = zoomedCellId.clone();
-                if (Math.abs(delta.x) > Math.abs(delta.y)) nextCell.x -= Math.sign(delta.x);
-                else nextCell.y += Math.sign(delta.y);
-                navigateToCell(nextCell, false);
-            }
+        const isTap = delta.length() < context.config.tapThreshold;
+        const isSwipe = delta.length() > context.config.swipeThreshold;
+        const isHorizontal = Math.abs(delta.x) > Math.abs(delta.y);
+
+        const canOpenOnTap = openOnSecondTap && (openMode === "custom" || !!zoomedProject?.href);
+        if (isTap && isZoomed && canOpenOnTap && tappedCellId.equals(zoomedCellId) &&
+            isOnBlockImage(worldCoord, getCellBlock(zoomedCellId, context), currentCellSize)) {
+            // A second tap on the zoomed image opens the project. Tapping its margin still zooms out.
+            openProject("tap");
         } else if (isTap) {
-            // If not zoomed and the user taps, zoom into that cell.
-            navigateToCell(tappedCellId, true);
+            tapCell(tappedCellId);
+        } else if (isZoomed && isSwipe && context.gallery && isHorizontal &&
+            isOnBlockImage(screenToWorld(context.clickStart, context), getCellBlock(zoomedCellId, context), currentCellSize)) {
+            // A horizontal swipe that starts on the zoomed image browses the project's gallery.
+            stepGallery(-Math.sign(delta.x));
+        } else if (isZoomed && isSwipe) {
+            // If swiped, move to the next visible project in the swipe direction.
+            if (isHorizontal) stepZoomed("x", -Math.sign(delta.x), "swipe");
+            else stepZoomed("y", Math.sign(delta.y), "swipe");
+        } else if (!isZoomed) {
+            // The user dragged the grid around, so remember the new position.
+            syncUrl(null);
         }
-    }, [threeContext, navigateToCell, unzoom]);
+    }, [threeContext, tapCell, stepZoomed, stepGallery, syncUrl, openOnSecondTap, openMode, zoomedProject, openProject]);
 
-    return { zoomedProject, isZoomed: threeContext.current.isZoomed, handleInteraction };
+    return {
+        zoomedProject,
+        isZoomed: threeContext.current.isZoomed,
+        handleInteraction,
+        navigateToCell,
+        unzoom,
+        openProject,
+        tapCell,
+        stepZoomed,
+        findNextCell,
+        isCellSelectable,
+        handleZoomGesture,
+        handleZoomGestureEnd,
+        handlePanEnd,
+    };
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import React, { useState, useCallback } from "react";
+import { Project } from "../../../types";
+import { ThreeContext } from "./types";
+import { getCellBlock, getProjectByCellId, stopMomentum } from "./hookUtils";
+
+/**
+ * @file Makes the grid usable with a keyboard. The grid element itself is focusable and:
+ * - The arrow keys move a focus ring between projects (drawn by the shader), and the
+ *   camera follows it. While zoomed, they move between projects like a swipe does.
+ * - Enter or Space activates the focused project, like a tap: it zooms in, or back out.
+ * - Escape zooms out.
+ * - + and - zoom the grid in and out around the middle of the screen, like a pinch would.
+ * All actions go through the same logic as pointer input (see useInteraction).
+ * The focused project is also returned, so it can be announced to screen readers.
+ */
+
+// Maps the arrow keys to a direction in world space (y points up).
+const ARROW_KEYS: Record<string, { axis: "x" | "y"; direction: number }> = {
+    ArrowRight: { axis: "x", direction: 1 },
+    ArrowLeft: { axis: "x", direction: -1 },
+    ArrowUp: { axis: "y", direction: 1 },
+    ArrowDown: { axis: "y", direction: -1 },
+};
+
+/**
+ * Checks whether a key press comes from somewhere the user is typing.
+ */
+const isEditableTarget = (target: EventTarget) => {
+    const element = target as HTMLElement;
+    return element.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName);
+};
+
+export function useKeyboardNavigation(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    projects: Project[],
+    setVideoState: (cellId: any, src?: string) => void,
+    interaction: {
+        tapCell: (cellId: any, direction: "keyboard") => void;
+        stepZoomed: (axis: "x" | "y", direction: number, source: "keyboard") => void;
+        findNextCell: (cellId: any, axis: "x" | "y", direction: number) => any;
+        unzoom: () => void;
+        handleZoomGesture: (pos: { x: number; y: number }, factor: number) => void;
+        handleZoomGestureEnd: () => void;
+    }
+) {
+    const { tapCell, stepZoomed, findNextCell, unzoom, handleZoomGesture, handleZoomGestureEnd } = interaction;
+    const [focusedProject, setFocusedProject] = useState<Project | null>(null);
+
+    /**
+     * Moves the focus ring to a block and shows or hides it.
+     */
+    const setFocus = useCallback((cellId: any, isVisible: boolean) => {
+        const { current: context } = threeContext;
+        const { uniforms } = context.plane.material;
+        context.focusedCellId = cellId ? cellId.clone() : null;
+        if (cellId) uniforms.uFocusedCellId.value.copy(cellId);
+        uniforms.uFocusVisible.value = isVisible && !!cellId;
+        setFocusedProject(getProjectByCellId(cellId, projects, context.layout));
+    }, [threeContext, projects]);
+
+    /**
+     * Returns the block with keyboard focus, starting at the middle of the screen.
+     */
+    const getFocusedCell = useCallback(() => {
+        const { current: context } = threeContext;
+        if (context.isZoomed && context.zoomedCellId) return context.zoomedCellId;
+        if (context.focusedCellId) return context.focusedCellId;
+        const cellSize = context.plane.material.uniforms.uCellSize.value;
+        return getCellBlock(context.targetOffset.clone().divideScalar(cellSize), context).cellId;
+    }, [threeContext]);
+
+    /**
+     * Moves the focus to the next project in a direction, and pans the camera to it.
+     */
+    const moveFocus = useCallback((axis: "x" | "y", direction: number) => {
+        const { current: context } = threeContext;
+        const nextCell = findNextCell(getFocusedCell(), axis, direction);
+        if (!nextCell) return;
+
+        const block = getCellBlock(nextCell, context);
+        const cellSize = context.plane.material.uniforms.uCellSize.value;
+        stopMomentum(context);
+        context.targetOffset.copy(block.cellId.clone().add(block.span.clone().multiplyScalar(0.5))).multiplyScalar(cellSize);
+        setFocus(block.cellId, true);
+        // Preview the focused project, just like hovering over it.
+        if (setVideoState) setVideoState(block.cellId);
+    }, [threeContext, findNextCell, getFocusedCell, setFocus, setVideoState]);
+
+    const onKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+        const { current: context } = threeContext;
+        if (!context.plane || event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey) return;
+        if (isEditableTarget(event.target)) return;
+        // Buttons and links inside the grid keep their own Enter/Space behavior.
+        const isOnGrid = event.target === event.currentTarget;
+
+        const arrow = ARROW_KEYS[event.key];
+        if (arrow) {
+            if (context.isZoomed) {
+                stepZoomed(arrow.axis, arrow.direction, "keyboard");
+                setFocus(context.zoomedCellId, true);
+            } else {
+                moveFocus(arrow.axis, arrow.direction);
+            }
+        } else if ((event.key === "Enter" || event.key === " ") && isOnGrid) {
+            tapCell(getFocusedCell(), "keyboard");
+            setFocus(context.isZoomed ? context.zoomedCellId : context.focusedCellId, true);
+        } else if (event.key === "Escape" && context.isZoomed) {
+            const zoomedCellId = context.zoomedCellId;
+            unzoom();
+            setFocus(zoomedCellId, true);
+            // Bring the focus back from the "View Project" link, which is hidden again.
+            event.currentTarget.focus();
+        } else if ((event.key === "+" || event.key === "=" || event.key === "-" || event.key === "_") && !context.isZoomed) {
+            const { keyboardZoomStep } = context.config;
+            const factor = event.key === "-" || event.key === "_" ? keyboardZoomStep : 1 / keyboardZoomStep;
+            const resolution = context.plane.material.uniforms.uResolution.value;
+            handleZoomGesture({ x: resolution.x / 2, y: resolution.y / 2 }, factor);
+            handleZoomGestureEnd();
+        } else {
+            return;
+        }
+        event.preventDefault();
+    }, [threeContext, stepZoomed, moveFocus, tapCell, unzoom, handleZoomGesture, handleZoomGestureEnd, getFocusedCell, setFocus]);
+
+    /**
+     * Shows the focus ring when the grid is reached with the keyboard (e.g. Tab).
+     */
+    const onFocus = useCallback((event: React.FocusEvent<HTMLDivElement>) => {
+        if (event.target !== event.currentTarget || !threeContext.current.plane) return;
+        if (event.currentTarget.matches(":focus-visible")) setFocus(getFocusedCell(), true);
+    }, [threeContext, getFocusedCell, setFocus]);
+
+    /**
+     * Hides the focus ring when the focus leaves the grid.
+     */
+    const onBlur = useCallback((event: React.FocusEvent<HTMLDivElement>) => {
+        const { current: context } = threeContext;
+        if (!context.plane || event.currentTarget.contains(event.relatedTarget as Node)) return;
+        context.plane.material.uniforms.uFocusVisible.value = false;
+    }, [threeContext]);
+
+    return { focusedProject, keyboardHandlers: { onKeyDown, onFocus, onBlur } };
+}
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from "react";
+import { ThreeContext, InteractiveGridProps } from "./types";
+import { getLayoutBounds } from "./hookUtils";
+import { buildProjectLayout, createLayoutTexture, LayoutStrategy } from "../layout";
+
+const DEFAULT_STRATEGY: LayoutStrategy = { type: "rowMajor" };
+
+/**
+ * @file Bakes the layout strategy into the shared cell-to-project lookup.
+ * Whenever the projects or layout props change, this hook:
+ * - Rebuilds the tile of project indices and spanned blocks on the CPU (see layout.ts).
+ * - Stores it on the context, where the JS hit-testing reads it.
+ * - Uploads it as the `uLayoutTexture` lookup texture, which the shader reads.
+ * Because both sides use the same data, they can never disagree about which
+ * project is in which cell.
+ */
+export function useLayout(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    props: InteractiveGridProps
+) {
+    const { projects, layout = "infinite", columns = 3, layoutStrategy = DEFAULT_STRATEGY, cellSize } = props;
+    // Strategies are compared by content so inline objects don't rebuild the layout on every render.
+    // A custom strategy's function can't be serialized, so it's left out of the key and read
+    // through a ref: an inline `getProjectIndex` doesn't rebuild the layout either.
+    const strategyKey = JSON.stringify(layoutStrategy);
+    const strategyRef = useRef(layoutStrategy);
+    const spansKey = JSON.stringify(projects?.map(project => project.span ?? null) ?? []);
+    // The layout mode the camera was last centered for, so later rebuilds (e.g. when a project
+    // source loads) keep the camera where the URL or the user put it.
+    const centeredMode = useRef<string | null>(null);
+
+    useEffect(() => {
+        strategyRef.current = layoutStrategy;
+    });
+
+    useEffect(() => {
+        if (!isThreeInitialized) return;
+
+        const { current: context } = threeContext;
+        const { plane, THREE } = context;
+        const { uLayoutTexture, uLayoutSize, uLayoutOrigin, uLayoutRepeat } = plane.material.uniforms;
+
+        const spans = (projects ?? []).map(project => project.span);
+        const projectLayout = buildProjectLayout(strategyRef.current, spans, layout, columns);
+        context.layout = projectLayout;
+        if (uLayoutTexture.value) uLayoutTexture.value.dispose();
+        uLayoutTexture.value = projectLayout ? createLayoutTexture(projectLayout, THREE) : null;
+        if (!projectLayout) return;
+
+        uLayoutSize.value.set(projectLayout.width, projectLayout.height);
+        uLayoutOrigin.value.set(projectLayout.originX, projectLayout.originY);
+        uLayoutRepeat.value = projectLayout.repeat;
+
+        // Center the camera on a finite block so the projects are in view, the first time
+        // it's shown or when switching layout modes.
+        const bounds = getLayoutBounds(projectLayout, cellSize);
+        if (bounds && !context.isZoomed && centeredMode.current !== layout) {
+            context.targetOffset.set((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2);
+        }
+        centeredMode.current = layout;
+    }, [isThreeInitialized, spansKey, layout, columns, strategyKey, cellSize, threeContext]);
+}
\ No newline at end of file
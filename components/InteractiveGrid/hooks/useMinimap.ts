@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useCallback } from "react";
+import { ThreeContext } from "./types";
+import { screenToWorld, stopMomentum } from "./hookUtils";
+import { ProjectLayout } from "../layout";
+import { StyleConfig } from "../config";
+
+/**
+ * @file Drives the minimap (if `showMinimap` is on), a small map of the project layout.
+ * This hook is responsible for:
+ * - Drawing a thumbnail of one tile of the layout from the image atlas. The thumbnail
+ *   is cached, and only redrawn when the layout or the atlas changes.
+ * - Marking the part of the grid that's currently on screen, in the theme's accent color.
+ *   In an "infinite" layout the mark wraps around the edges of the tile, just like the grid itself.
+ * - Moving the camera to the point the user clicks or drags on the minimap.
+ * It runs its own small loop, which only repaints when the camera has moved.
+ */
+
+/**
+ * Draws one tile of the layout, with every block showing its project's image.
+ */
+const drawThumbnail = (layout: ProjectLayout, atlas: HTMLCanvasElement, projectCount: number, scale: number) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(layout.width * scale);
+    canvas.height = Math.ceil(layout.height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return canvas;
+
+    // Matches the packing in `createTextureAtlas`.
+    const atlasGridSize = Math.ceil(Math.sqrt(projectCount));
+    const textureSize = StyleConfig.imageAtlasTextureSize;
+    layout.indices.forEach((index, cell) => {
+        // Draw each block once, from its bottom-left cell.
+        if (index === -1 || layout.blocks[cell * 4] !== 0 || layout.blocks[cell * 4 + 1] !== 0) return;
+        const width = layout.blocks[cell * 4 + 2];
+        const height = layout.blocks[cell * 4 + 3];
+        const tileX = cell % layout.width;
+        const tileY = Math.floor(cell / layout.width);
+
+        // Stretch the whole square atlas entry across the block, like the shader does.
+        const sourceX = (index % atlasGridSize) * textureSize;
+        const sourceY = Math.floor(index / atlasGridSize) * textureSize;
+        // The tile's rows go bottom to top, the canvas' top to bottom.
+        const x = tileX * scale;
+        const y = (layout.height - tileY - height) * scale;
+        ctx.drawImage(atlas, sourceX, sourceY, textureSize, textureSize, x + 0.5, y + 0.5, width * scale - 1, height * scale - 1);
+    });
+    return canvas;
+};
+
+export function useMinimap(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    isEnabled: boolean,
+    accentColor: string
+) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const isDragging = useRef(false);
+    // Read by the draw loop, so a theme change doesn't restart it.
+    const accentColorRef = useRef(accentColor);
+
+    useEffect(() => {
+        accentColorRef.current = accentColor;
+    });
+
+    useEffect(() => {
+        if (!isEnabled || !isThreeInitialized) return;
+        const { current: context } = threeContext;
+        let animationFrameId: number;
+        let thumbnail: { canvas: HTMLCanvasElement; layout: ProjectLayout; atlas: any } | null = null;
+        let lastFrameKey = "";
+
+        const draw = () => {
+            animationFrameId = requestAnimationFrame(draw);
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext("2d");
+            const { plane, layout } = context;
+            const atlas = plane?.material.uniforms.uImageAtlas.value;
+            if (!canvas || !ctx || !layout || !atlas?.image) return;
+
+            // Rebuild the cached thumbnail when the layout or the images changed.
+            const scale = StyleConfig.minimapSize / Math.max(layout.width, layout.height);
+            if (thumbnail?.layout !== layout || thumbnail?.atlas !== atlas) {
+                thumbnail = { canvas: drawThumbnail(layout, atlas.image, plane.material.uniforms.uTextureCount.value, scale), layout, atlas };
+                canvas.width = thumbnail.canvas.width;
+                canvas.height = thumbnail.canvas.height;
+                lastFrameKey = "";
+            }
+
+            // Find the visible part of the grid, in the tile's cells.
+            const resolution = plane.material.uniforms.uResolution.value;
+            const cellSize = plane.material.uniforms.uCellSize.value;
+            const topLeft = screenToWorld({ x: 0, y: 0 }, context).divideScalar(cellSize);
+            const bottomRight = screenToWorld({ x: resolution.x, y: resolution.y }, context).divideScalar(cellSize);
+            const frameKey = [topLeft.x, topLeft.y, bottomRight.x, bottomRight.y].map(value => value.toFixed(3)).join() + accentColorRef.current;
+            if (frameKey === lastFrameKey) return;
+            lastFrameKey = frameKey;
+
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(thumbnail.canvas, 0, 0);
+
+            let left = topLeft.x - layout.originX;
+            let top = layout.height - (topLeft.y - layout.originY);
+            const width = bottomRight.x - topLeft.x;
+            const height = topLeft.y - bottomRight.y;
+            if (layout.repeat) {
+                left = ((left % layout.width) + layout.width) % layout.width;
+                top = ((top % layout.height) + layout.height) % layout.height;
+            }
+            ctx.strokeStyle = accentColorRef.current;
+            ctx.lineWidth = 1;
+            // In a repeating layout, also draw the copies that wrap in from the other edges.
+            const copies = layout.repeat ? [-1, 0] : [0];
+            copies.forEach(dx => copies.forEach(dy => {
+                ctx.strokeRect((left + dx * layout.width) * scale + 0.5, (top + dy * layout.height) * scale + 0.5, width * scale, height * scale);
+            }));
+        };
+
+        draw();
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [isEnabled, isThreeInitialized, threeContext]);
+
+    /**
+     * Centers the camera on the point of the minimap under the pointer.
+     * In a repeating layout, the copy of that point nearest to the camera is used.
+     */
+    const moveCamera = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+        const { current: context } = threeContext;
+        const { plane, layout } = context;
+        if (!plane || !layout || context.isZoomed) return;
+
+        const rect = event.currentTarget.getBoundingClientRect();
+        const cellSize = plane.material.uniforms.uCellSize.value;
+        let x = (layout.originX + ((event.clientX - rect.left) / rect.width) * layout.width) * cellSize;
+        let y = (layout.originY + (1 - (event.clientY - rect.top) / rect.height) * layout.height) * cellSize;
+        if (layout.repeat) {
+            const tileWidth = layout.width * cellSize;
+            const tileHeight = layout.height * cellSize;
+            x += Math.round((context.targetOffset.x - x) / tileWidth) * tileWidth;
+            y += Math.round((context.targetOffset.y - y) / tileHeight) * tileHeight;
+        }
+        stopMomentum(context);
+        context.targetOffset.set(x, y);
+    }, [threeContext]);
+
+    const onPointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+        event.stopPropagation();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        isDragging.current = true;
+        moveCamera(event);
+    }, [moveCamera]);
+
+    const onPointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+        event.stopPropagation();
+        if (isDragging.current) moveCamera(event);
+    }, [moveCamera]);
+
+    const onPointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+        event.stopPropagation();
+        event.currentTarget.releasePointerCapture(event.pointerId);
+        isDragging.current = false;
+    }, []);
+
+    return { canvasRef, minimapHandlers: { onPointerDown, onPointerMove, onPointerUp } };
+}
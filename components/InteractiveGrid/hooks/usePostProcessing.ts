@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from "react";
+import { ThreeContext } from "./types";
+import { vertexShader, postUniformsHeader } from "../shaders";
+import { PostPass, DEFAULT_POST_PASSES, resolvePostPasses, getPostPassesKey } from "../postprocessing";
+
+/**
+ * @file Compiles the `postPasses` prop into the materials the animation loop draws with.
+ * Each pass gets its own full-screen `ShaderMaterial`, with the shared uniforms
+ * (`tDiffuse`, `uResolution`, ...) declared for it and its own uniforms merged in.
+ * The materials are only rebuilt when the names in the list change, so an inline list
+ * doesn't recompile every render. Give a changed shader a new name to recompile it.
+ * The render targets the passes read from and write to are set up by useThreeSetup.
+ */
+export function usePostProcessing(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    postPasses: (string | PostPass)[] = DEFAULT_POST_PASSES
+) {
+    const passesRef = useRef(postPasses);
+    const passesKey = getPostPassesKey(postPasses);
+
+    useEffect(() => {
+        passesRef.current = postPasses;
+    });
+
+    useEffect(() => {
+        if (!isThreeInitialized) return;
+        const { current: context } = threeContext;
+        const { THREE } = context;
+
+        context.postPasses = resolvePostPasses(passesRef.current).map(pass => ({
+            pass,
+            material: new THREE.ShaderMaterial({
+                uniforms: {
+                    tDiffuse: { value: null }, uResolution: { value: new THREE.Vector2() },
+                    uTime: { value: 0.0 }, uZoomProgress: { value: 0.0 }, uOptimizeMobile: { value: true },
+                    ...pass.uniforms,
+                },
+                vertexShader,
+                fragmentShader: postUniformsHeader + pass.fragmentShader,
+            }),
+        }));
+
+        return () => {
+            context.postPasses.forEach(({ material }) => material.dispose());
+            context.postPasses = [];
+        };
+    }, [isThreeInitialized, threeContext, passesKey]);
+}
@@ -0,0 +1,50 @@
+import React, { useEffect } from "react";
+import { ThreeContext, InteractiveGridProps } from "./types";
+import { matchesFilter } from "./hookUtils";
+import { createProjectMaskTexture, writeProjectMaskTexture } from "./textureUtils";
+
+/**
+ * @file Translates the `activeFilter` prop into per-project mask values for the shader.
+ * Each project gets one RGBA texel in the `uProjectMask` texture:
+ * - R: How strongly the project is dimmed (0 = matches the filter, 1 = filtered out).
+ * - G: How strongly the project is highlighted as a search match (set by useSearch).
+ * This hook only sets the *target* values. The animation loop smoothly moves the
+ * current values towards them, which is what makes filter changes fade in and out.
+ */
+export function useProjectFilter(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    props: InteractiveGridProps
+) {
+    const { projects, activeFilter } = props;
+    // Arrays are compared by content so an inline `activeFilter={["motion"]}` doesn't retrigger the effect.
+    const filterKey = JSON.stringify(activeFilter ?? null);
+
+    useEffect(() => {
+        if (!isThreeInitialized || !projects) return;
+
+        const { current: context } = threeContext;
+        const { THREE, plane } = context;
+        const size = projects.length * 4;
+
+        // (Re)create the mask whenever the number of projects changes. A new mask starts
+        // at its target values so a fresh data set doesn't fade in from nothing.
+        const isNewMask = !context.targetProjectMask || context.targetProjectMask.length !== size;
+        if (isNewMask) {
+            context.targetProjectMask = new Float32Array(size);
+            const { uProjectMask } = plane.material.uniforms;
+            if (uProjectMask.value) uProjectMask.value.dispose();
+            uProjectMask.value = createProjectMaskTexture(projects.length, THREE);
+        }
+
+        const target = context.targetProjectMask!;
+        projects.forEach((project, index) => {
+            target[index * 4] = matchesFilter(project, activeFilter) ? 0 : 1;
+        });
+
+        if (isNewMask) {
+            context.projectMask = Float32Array.from(target);
+            writeProjectMaskTexture(plane.material.uniforms.uProjectMask.value, context.projectMask);
+        }
+    }, [isThreeInitialized, projects, filterKey, threeContext]);
+}
\ No newline at end of file
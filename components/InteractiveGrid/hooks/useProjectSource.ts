@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Project } from "../../../types";
+import { ProjectSource } from "./types";
+
+/**
+ * @file Loads projects from a remote source instead of a static array.
+ * This hook is responsible for:
+ * - Fetching a JSON URL or calling an async loader function.
+ * - Mapping arbitrary field names onto the `Project` shape.
+ * - Polling for changes, and re-fetching on demand via `refresh` or `refreshKey`.
+ * - Keeping the returned array stable when the data hasn't changed, so the
+ *   textures aren't rebuilt on every poll.
+ * While the first load is in flight (or if it fails), the fallback projects are used.
+ * Updating the projects only swaps the textures; the Three.js scene is never torn down.
+ */
+
+const EMPTY_PROJECTS: Project[] = [];
+
+export type ProjectSourceStatus = "idle" | "loading" | "ready" | "error";
+
+/**
+ * Reads a value from a nested object using a dot path like "fields.cover.url".
+ */
+const getByPath = (value: any, path: string) => {
+    return path.split(".").reduce((current, key) => (current == null ? undefined : current[key]), value);
+};
+
+/**
+ * Maps one raw item onto the `Project` shape, using either the source's `transform`
+ * function or its `fields` paths. Fields without a path are read from the same key.
+ */
+const mapItem = (item: any, index: number, source: ProjectSource): Project => {
+    if (source.transform) return source.transform(item, index);
+    const read = (key: keyof Project) => getByPath(item, source.fields?.[key] ?? key);
+    const project: any = {};
+    (["title", "image", "year", "href", "video", "category", "tags", "span", "description", "client", "role", "tools", "media"] as (keyof Project)[]).forEach(key => {
+        const value = read(key);
+        if (value !== undefined) project[key] = value;
+    });
+    return project as Project;
+};
+
+export function useProjectSource(source: ProjectSource | undefined, fallbackProjects: Project[] = EMPTY_PROJECTS) {
+    const [loadedProjects, setLoadedProjects] = useState<Project[] | null>(null);
+    // A source starts out "loading", so nothing mistakes the fallback projects for its data.
+    const [status, setStatus] = useState<ProjectSourceStatus>(() => (source?.url || source?.load ? "loading" : "idle"));
+    const [error, setError] = useState<unknown>(null);
+    const [manualRefreshCount, setManualRefreshCount] = useState(0);
+
+    // The loader and mapping options are read through a ref, so inline objects and
+    // functions don't cause a re-fetch on every render.
+    const sourceRef = useRef(source);
+    // The serialized result of the last load, used to skip updates when nothing changed.
+    const lastResultRef = useRef<string | null>(null);
+
+    const { url, pollInterval, refreshKey } = source ?? {};
+    const hasLoader = !!source?.load;
+
+    // Declared before the loading effect, so a load always sees the latest source.
+    useEffect(() => {
+        sourceRef.current = source;
+    });
+
+    useEffect(() => {
+        if (!url && !hasLoader) {
+            setStatus("idle");
+            return;
+        }
+
+        let isCancelled = false;
+        let abortController: AbortController | null = null;
+
+        const fetchProjects = async () => {
+            abortController?.abort();
+            abortController = new AbortController();
+            setStatus("loading");
+            try {
+                const currentSource = sourceRef.current ?? {};
+                let data: unknown;
+                if (currentSource.load) {
+                    data = await currentSource.load();
+                } else {
+                    const response = await fetch(url!, { signal: abortController.signal });
+                    if (!response.ok) throw new Error(`Request for ${url} failed with status ${response.status}`);
+                    data = await response.json();
+                }
+                if (isCancelled) return;
+
+                const items = currentSource.itemsPath ? getByPath(data, currentSource.itemsPath) : data;
+                if (!Array.isArray(items)) throw new Error("The project source did not return a list of items.");
+                const projects = items.map((item, index) => mapItem(item, index, currentSource));
+
+                // Only hand out a new array when the data actually changed.
+                const serialized = JSON.stringify(projects);
+                if (serialized !== lastResultRef.current) {
+                    lastResultRef.current = serialized;
+                    setLoadedProjects(projects);
+                }
+                setError(null);
+                setStatus("ready");
+            } catch (err: any) {
+                if (isCancelled || err?.name === "AbortError") return;
+                console.warn("Could not load projects from the project source.", err);
+                sourceRef.current?.onError?.(err);
+                setError(err);
+                setStatus("error");
+            }
+        };
+
+        fetchProjects();
+        const timer = pollInterval && pollInterval > 0 ? setInterval(fetchProjects, pollInterval) : null;
+
+        return () => {
+            isCancelled = true;
+            abortController?.abort();
+            if (timer) clearInterval(timer);
+        };
+    }, [url, hasLoader, pollInterval, refreshKey, manualRefreshCount]);
+
+    /**
+     * Re-fetches the projects immediately.
+     */
+    const refresh = useCallback(() => setManualRefreshCount(count => count + 1), []);
+
+    return {
+        // The last successfully loaded projects are kept if a later refresh fails.
+        projects: (url || hasLoader) && loadedProjects ? loadedProjects : fallbackProjects,
+        status,
+        error,
+        refresh,
+    };
+}
\ No newline at end of file
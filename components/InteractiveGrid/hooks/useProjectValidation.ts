@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Project } from "../../../types";
+import { validateProjects, ProjectDiagnostic } from "../validation";
+
+/**
+ * @file Runs the project data through the validation layer (see validation.ts).
+ * This hook is responsible for:
+ * - Normalizing the projects and filtering out the ones that can't be displayed.
+ * - Mapping the remaining projects back to their original positions (`sourceIndices`).
+ * - Reporting every problem through the `onDiagnostics` callback.
+ * - Printing a console table of the problems in development mode.
+ * Validation only re-runs when the project array itself changes.
+ */
+
+/**
+ * Checks whether the app is running in Vite's development mode.
+ */
+const isDevMode = () => import.meta.env.DEV;
+
+export function useProjectValidation(
+    projects: Project[] | undefined,
+    onDiagnostics?: (diagnostics: ProjectDiagnostic[]) => void
+) {
+    const result = useMemo(() => validateProjects(projects ?? []), [projects]);
+
+    // The callback is read through a ref so an inline function doesn't re-report on every render.
+    const onDiagnosticsRef = useRef(onDiagnostics);
+
+    useEffect(() => {
+        onDiagnosticsRef.current = onDiagnostics;
+    });
+
+    useEffect(() => {
+        onDiagnosticsRef.current?.(result.diagnostics);
+
+        if (isDevMode() && result.diagnostics.length > 0) {
+            const skipped = new Set(result.diagnostics.filter(d => d.severity === "error").map(d => d.index)).size;
+            console.groupCollapsed(`InteractiveGrid: found ${result.diagnostics.length} problem(s) in the project data, ${skipped} project(s) left out.`);
+            console.table(result.diagnostics);
+            console.groupEnd();
+        }
+    }, [result]);
+
+    return result;
+}
@@ -28,6 +28,9 @@ export function useResizeObserver(
             context.renderer.setSize(currentMount.clientWidth, currentMount.clientHeight);
             // 2. Update the shader's `uResolution` uniform so it knows the new screen dimensions.
             context.plane.material.uniforms.uResolution.value.set(currentMount.clientWidth, currentMount.clientHeight);
+            // 3. Match the post-processing targets to the canvas, in device pixels.
+            const bufferSize = context.renderer.getDrawingBufferSize(new context.THREE.Vector2());
+            context.renderTargets.forEach(target => target.setSize(bufferSize.x, bufferSize.y));
         };
 
         const resizeObserver = new ResizeObserver(onResize);
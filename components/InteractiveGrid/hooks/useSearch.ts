@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { ThreeContext, InteractiveGridProps } from "./types";
+import { matchesFilter } from "./hookUtils";
+import { findNearestProjectCell } from "../layout";
+import { searchProjects } from "../search";
+
+/**
+ * @file Manages type-to-search. This hook is responsible for:
+ * - Opening the search overlay when the user presses "/" inside the grid. The key is only
+ *   taken while the grid has focus, so other grids and the rest of the page keep it.
+ * - Holding the query, either internally or controlled by the `searchQuery` prop.
+ * - Fuzzy-matching project titles and tags (see search.ts). Projects hidden by the
+ *   active filter are left out.
+ * - Highlighting the matching projects in the shader, through the G channel of the
+ *   per-project mask (the animation loop fades it in and out).
+ * - Flying to the nearest copy of the chosen project and zooming into it.
+ */
+export function useSearch(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    props: InteractiveGridProps,
+    navigateToCell: (cellId: any, isInitialZoom: boolean) => void,
+    mountRef: React.RefObject<HTMLDivElement>
+) {
+    const { projects, activeFilter, searchEnabled = true, searchQuery, onSearchQueryChange } = props;
+    const [isOpen, setIsOpen] = useState(false);
+    const [internalQuery, setInternalQuery] = useState("");
+    const query = searchQuery ?? internalQuery;
+    const filterKey = JSON.stringify(activeFilter ?? null);
+
+    const results = useMemo(
+        () => searchProjects(projects ?? [], query, project => matchesFilter(project, activeFilter)),
+        [projects, query, filterKey]
+    );
+
+    /**
+     * Updates the query. A controlled query is only reported, the owner decides what to do with it.
+     */
+    const setQuery = useCallback((value: string) => {
+        if (searchQuery === undefined) setInternalQuery(value);
+        onSearchQueryChange?.(value);
+    }, [searchQuery, onSearchQueryChange]);
+
+    const open = useCallback(() => setIsOpen(true), []);
+
+    /**
+     * Closes the overlay and clears the query, which also removes the highlights.
+     */
+    const close = useCallback(() => {
+        setIsOpen(false);
+        setQuery("");
+    }, [setQuery]);
+
+    // Open the overlay with "/", unless the user is typing somewhere else.
+    useEffect(() => {
+        const mount = mountRef.current;
+        if (!searchEnabled || !mount) return;
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== "/" || event.ctrlKey || event.metaKey || event.altKey) return;
+            const target = event.target as HTMLElement | null;
+            if (target?.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "")) return;
+            event.preventDefault();
+            setIsOpen(true);
+        };
+        mount.addEventListener("keydown", onKeyDown);
+        return () => mount.removeEventListener("keydown", onKeyDown);
+    }, [searchEnabled, mountRef]);
+
+    // Highlight the matching projects.
+    useEffect(() => {
+        const { targetProjectMask } = threeContext.current;
+        if (!isThreeInitialized || !targetProjectMask) return;
+        const matches = new Set(results.map(result => result.index));
+        for (let index = 0; index * 4 + 1 < targetProjectMask.length; index++) {
+            targetProjectMask[index * 4 + 1] = matches.has(index) ? 1 : 0;
+        }
+    }, [isThreeInitialized, threeContext, results]);
+
+    /**
+     * Flies to the copy of a project nearest to the camera and zooms into it.
+     * The camera spring in the animation loop does the flying.
+     */
+    const select = useCallback((projectIndex: number) => {
+        const { current: context } = threeContext;
+        const { plane, layout, THREE } = context;
+        if (!plane || !layout) return;
+
+        const cellSize = plane.material.uniforms.uCellSize.value;
+        const cell = findNearestProjectCell(layout, projectIndex, context.targetOffset.x / cellSize, context.targetOffset.y / cellSize);
+        if (!cell) return;
+        navigateToCell(new THREE.Vector2(cell.x, cell.y), !context.isZoomed);
+        close();
+    }, [threeContext, navigateToCell, close]);
+
+    return { isOpen, query, results, open, close, setQuery, select };
+}
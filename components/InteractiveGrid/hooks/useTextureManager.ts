@@ -1,4 +1,5 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
+import { Project } from "../../../types";
 import { ThreeContext, InteractiveGridProps } from "./types";
 import { createTextTexture, createTextureAtlas, createPlaceholderTexture } from "./textureUtils";
 
@@ -10,49 +11,75 @@ import { createTextTexture, createTextureAtlas, createPlaceholderTexture } from
  * - Generating textures from text using a 2D canvas.
  * - Combining individual textures into large "texture atlases" for performance.
  * - Updating the shader uniforms with the final atlases.
+ * - Ignoring results of a load that was overtaken by newer project data.
+ * - Redrawing just the text when only the text style changed (e.g. a new theme),
+ *   and crossfading to it instead of reloading the images.
  */
 export function useTextureManager(
     threeContext: React.MutableRefObject<ThreeContext>,
     isThreeInitialized: boolean,
-    props: InteractiveGridProps
+    props: InteractiveGridProps,
+    textColor: string
 ) {
-    const { projects, fontFamily, fontWeight, textColor } = props;
+    const { projects, fontFamily, fontWeight } = props;
+    // The projects the current image atlas was built from.
+    const atlasProjects = useRef<Project[] | null>(null);
 
     useEffect(() => {
         if (!isThreeInitialized || !projects || projects.length === 0) return;
 
         const { current: context } = threeContext;
         const { THREE, plane } = context;
+        // Set when a newer update starts (e.g. a project source refreshed) before this one finished.
+        let isStale = false;
 
         const updateData = async () => {
             const textureLoader = new THREE.TextureLoader();
             textureLoader.setCrossOrigin("");
 
             try {
-                // Start loading all images, with error handling for each one.
-                const texturePromises = projects.map(p => 
-                    textureLoader.loadAsync(p.image).catch(err => {
-                        console.warn(`Could not load image texture for "${p.title}". Using placeholder.`, err);
-                        return createPlaceholderTexture(THREE);
-                    })
-                );
+                const { uniforms } = plane.material;
+                // The images only need loading again when the projects changed.
+                const isTextOnly = atlasProjects.current === projects;
+                let imageAtlas = null;
+                if (!isTextOnly) {
+                    // Start loading all images, with error handling for each one.
+                    const texturePromises = projects.map(p => 
+                        textureLoader.loadAsync(p.image).catch(err => {
+                            console.warn(`Could not load image texture for "${p.title}". Using placeholder.`, err);
+                            return createPlaceholderTexture(THREE);
+                        })
+                    );
+                    const imageTextures = await Promise.all(texturePromises);
+                    if (isStale) {
+                        imageTextures.forEach(texture => texture.dispose());
+                        return;
+                    }
+                    imageAtlas = createTextureAtlas(imageTextures, false, THREE);
+                }
                 // Generate text textures on the fly.
-                const imageTextures = await Promise.all(texturePromises);
                 const textTextures = projects.map((p) => createTextTexture(p, { fontFamily, fontWeight, textColor }, THREE));
-
                 // Combine the individual textures into two large atlases.
-                const imageAtlas = createTextureAtlas(imageTextures, false, THREE);
                 const textAtlas = createTextureAtlas(textTextures, true, THREE);
                 
-                const { uniforms } = plane.material;
                 // Dispose of old textures to free up GPU memory before assigning new ones.
-                if (uniforms.uImageAtlas.value) uniforms.uImageAtlas.value.dispose();
-                if (uniforms.uTextAtlas.value) uniforms.uTextAtlas.value.dispose();
+                if (uniforms.uPrevTextAtlas.value) uniforms.uPrevTextAtlas.value.dispose();
+                uniforms.uPrevTextAtlas.value = null;
+                if (isTextOnly) {
+                    // Crossfade from the old text (the animation loop advances `textMix`).
+                    uniforms.uPrevTextAtlas.value = uniforms.uTextAtlas.value;
+                    context.textMix = 0;
+                } else {
+                    if (uniforms.uImageAtlas.value) uniforms.uImageAtlas.value.dispose();
+                    if (uniforms.uTextAtlas.value) uniforms.uTextAtlas.value.dispose();
+                    context.textMix = 1;
+                }
                 
                 // Update the shader with the new atlases.
-                uniforms.uImageAtlas.value = imageAtlas;
+                if (imageAtlas) uniforms.uImageAtlas.value = imageAtlas;
                 uniforms.uTextAtlas.value = textAtlas;
                 uniforms.uTextureCount.value = projects.length;
+                atlasProjects.current = projects;
 
             } catch (error) {
                 console.error("A critical error occurred during texture processing:", error);
@@ -61,5 +88,8 @@ export function useTextureManager(
 
         updateData();
 
+        return () => {
+            isStale = true;
+        };
     }, [isThreeInitialized, projects, fontFamily, fontWeight, textColor, threeContext]);
 }
\ No newline at end of file
@@ -10,6 +10,7 @@ import { ThreeContext } from "./types";
  * - The Orthographic Camera, used for 2D rendering.
  * - The WebGL Renderer, which draws everything to the canvas.
  * - The main Plane Mesh, which fills the screen and has our custom shader material.
+ * - The render targets and the full-screen plane for the post-processing passes.
  * It returns a boolean flag that indicates when this setup is complete.
  */
 export function useThreeSetup(
@@ -37,7 +38,7 @@ export function useThreeSetup(
         Object.assign(context, {
             previousMouse: new THREE.Vector2(), clickStart: new THREE.Vector2(),
             offset: new THREE.Vector2(), targetOffset: new THREE.Vector2(),
-            offsetVelocity: new THREE.Vector2(), mousePos: new THREE.Vector2(-1, -1),
+            offsetVelocity: new THREE.Vector2(), panVelocity: new THREE.Vector2(), mousePos: new THREE.Vector2(-1, -1),
             targetMousePos: new THREE.Vector2(-1, -1), lastOffset: new THREE.Vector2(),
             hoveredCellId: new THREE.Vector2(-999, -999)
         });
@@ -59,22 +60,42 @@ export function useThreeSetup(
         const uniforms = {
             uOffset: { value: context.offset }, uResolution: { value: new THREE.Vector2() },
             uBorderColor: { value: new THREE.Vector4() }, uHoverColor: { value: new THREE.Vector4() },
-            uBackgroundColor: { value: new THREE.Vector4() }, uMousePos: { value: context.mousePos },
+            uBackgroundColor: { value: new THREE.Vector4() }, uAccentColor: { value: new THREE.Vector4(1, 1, 1, 1) },
+            uMousePos: { value: context.mousePos },
             uZoom: { value: 1.0 }, uDistortionStrength: { value: 1.0 }, uCellSize: { value: 0.75 },
             uTextureCount: { value: 0 }, uImageAtlas: { value: null }, uTextAtlas: { value: null },
+            uPrevTextAtlas: { value: null }, uTextMix: { value: 1.0 },
             uActiveVideo: { value: null }, uHoveredCellId: { value: new THREE.Vector2(-999, -999) },
             uIsVideoActive: { value: false }, uZoomProgress: { value: 0.0 }, uTime: { value: 0.0 },
             uIsMobile: { value: isMobile }, uHoverEnabled: { value: true }, uOptimizeMobile: { value: true },
+            uProjectMask: { value: null }, uLayoutTexture: { value: null }, uLayoutSize: { value: new THREE.Vector2(1, 1) },
+            uLayoutOrigin: { value: new THREE.Vector2() }, uLayoutRepeat: { value: true },
+            uGalleryActive: { value: false }, uGalleryCellId: { value: new THREE.Vector2(-999, -999) },
+            uGalleryTexture: { value: null }, uGalleryPrevTexture: { value: null },
+            uGalleryFromBase: { value: true }, uGalleryMix: { value: 1.0 },
+            uFocusedCellId: { value: new THREE.Vector2(-999, -999) }, uFocusVisible: { value: false },
         };
         const material = new THREE.ShaderMaterial({ uniforms, vertexShader, fragmentShader, transparent: true });
         context.plane = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
         context.scene.add(context.plane);
 
+        // 5. Create the Post-processing Targets. The scene is drawn into one, then each
+        // pass reads from one and writes to the other. They're sized by useResizeObserver.
+        context.renderTargets = [0, 1].map(() => new THREE.WebGLRenderTarget(1, 1));
+        context.postScene = new THREE.Scene();
+        context.postQuad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+        context.postScene.add(context.postQuad);
+        // The quad's own material is swapped for the passes' ones, which usePostProcessing disposes.
+        const postQuadMaterial = context.postQuad.material;
+
         // Signal that initialization is complete.
         setIsThreeInitialized(true);
 
         // Cleanup function to remove the renderer's canvas on component unmount.
         return () => {
+            context.renderTargets.forEach(target => target.dispose());
+            context.postQuad.geometry.dispose();
+            postQuadMaterial.dispose();
             if (context.renderer?.domElement.parentNode === currentMount) {
                 currentMount.removeChild(context.renderer.domElement);
             }
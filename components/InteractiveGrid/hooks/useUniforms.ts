@@ -1,32 +1,52 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { parseColorToVec4 } from "../utils";
 import { ThreeContext, InteractiveGridProps } from "./types";
+import { GridTheme } from "../theme";
 
 /**
  * @file Synchronizes the React component's props with the Three.js shader uniforms.
  * This hook acts as a bridge between the React world and the WebGL world.
  * Whenever a prop related to the grid's appearance changes (like color, cell size, etc.),
  * this hook ensures the corresponding `uniform` variable in the shader is updated
- * to reflect that change instantly.
+ * to reflect that change. Colors (from the theme) fade over `themeTransitionDuration`,
+ * everything else changes instantly.
  */
 export function useUniforms(
     threeContext: React.MutableRefObject<ThreeContext>,
     isThreeInitialized: boolean,
-    props: InteractiveGridProps
+    props: InteractiveGridProps,
+    theme: GridTheme
 ) {
-    const { backgroundColor, borderColor, hoverColor, cellSize, distortionStrength, disableMobileHover, optimizeMobile } = props;
+    const { cellSize, distortionStrength, disableMobileHover, optimizeMobile } = props;
+    const { background, border, hover, accent } = theme;
+    // Whether the colors have been set once. The first ones are shown right away, there's nothing to fade from.
+    const hasColors = useRef(false);
 
-    // This effect updates all color-related uniforms.
+    // This effect fades all color-related uniforms to the theme's colors.
     useEffect(() => {
-        if (isThreeInitialized) {
-            const { plane, THREE } = threeContext.current;
-            const { uBorderColor, uHoverColor, uBackgroundColor } = plane.material.uniforms;
-            // The `parseColorToVec4` utility converts CSS color strings into a format the shader understands.
-            uBackgroundColor.value.copy(parseColorToVec4(backgroundColor, THREE));
-            uBorderColor.value.copy(parseColorToVec4(borderColor, THREE));
-            uHoverColor.value.copy(parseColorToVec4(hoverColor, THREE));
-        }
-    }, [isThreeInitialized, backgroundColor, borderColor, hoverColor, threeContext]);
+        if (!isThreeInitialized) return;
+        const { plane, THREE, config } = threeContext.current;
+        const { uBorderColor, uHoverColor, uBackgroundColor, uAccentColor } = plane.material.uniforms;
+        // The `parseColorToVec4` utility converts CSS color strings into a format the shader understands.
+        // Each fade starts from the current value, so a theme change halfway through a fade doesn't jump.
+        const fades = [
+            [uBackgroundColor, background], [uBorderColor, border], [uHoverColor, hover], [uAccentColor, accent],
+        ].map(([uniform, color]) => ({ uniform, from: uniform.value.clone(), to: parseColorToVec4(color, THREE) }));
+        const duration = hasColors.current ? config.themeTransitionDuration : 0;
+        hasColors.current = true;
+
+        let animationFrameId = 0;
+        const startTime = performance.now();
+        const fade = (time: number) => {
+            const progress = duration > 0 ? Math.min(Math.max((time - startTime) / duration, 0), 1) : 1;
+            const eased = progress * progress * (3 - 2 * progress); // Ease in and out
+            fades.forEach(({ uniform, from, to }) => uniform.value.copy(from).lerp(to, eased));
+            if (progress < 1) animationFrameId = requestAnimationFrame(fade);
+        };
+        fade(startTime);
+
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [isThreeInitialized, background, border, hover, accent, threeContext]);
 
     // This effect updates scalar (single number) uniforms.
     useEffect(() => {
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from "react";
+import { ThreeContext, InteractiveGridProps } from "./types";
+import { getProjectIndexByCellId } from "./hookUtils";
+import { findNearestProjectCell } from "../layout";
+import { readUrlState, slugify } from "../urlState";
+
+/**
+ * @file Restores a shared view from the URL when the grid mounts (if `urlSync` is on).
+ * Writing the URL is done by useInteraction, whenever the zoom state changes or a pan ends.
+ * The restore runs once, and seeds the camera directly at its target, so the shared view
+ * appears without flying there. With a project `source`, it waits for the first load to
+ * finish, so a project that's only in the remote data can still be found by its slug.
+ * The `project` slug wins over the `cell`: if the cell no longer shows that project
+ * (e.g. the layout changed), the copy of the project nearest to the cell is used.
+ */
+export function useUrlSync(
+    threeContext: React.MutableRefObject<ThreeContext>,
+    isThreeInitialized: boolean,
+    props: InteractiveGridProps,
+    navigateToCell: (cellId: any, isInitialZoom: boolean) => void,
+    isSourceLoading: boolean
+) {
+    const { projects, urlSync } = props;
+    const hasRestored = useRef(false);
+
+    useEffect(() => {
+        const { current: context } = threeContext;
+        if (!urlSync || !isThreeInitialized || isSourceLoading || hasRestored.current || !context.layout) return;
+        hasRestored.current = true;
+
+        const { THREE, layout } = context;
+        const { slug, cell, offset } = readUrlState(urlSync);
+        if (offset) context.targetOffset.set(offset.x, offset.y);
+
+        // Find the block to zoom into.
+        let cellId = cell ? new THREE.Vector2(cell.x, cell.y) : null;
+        const projectIndex = slug ? (projects ?? []).findIndex(project => slugify(project.title) === slug) : -1;
+        if (slug && projectIndex === -1) {
+            // The shared project no longer exists, so only the camera position is restored.
+            cellId = null;
+        } else if (projectIndex !== -1 && getProjectIndexByCellId(cellId, layout) !== projectIndex) {
+            const from = cellId ?? context.targetOffset.clone().divideScalar(context.plane.material.uniforms.uCellSize.value);
+            const nearest = findNearestProjectCell(layout, projectIndex, from.x, from.y);
+            cellId = nearest ? new THREE.Vector2(nearest.x, nearest.y) : null;
+        }
+        if (cellId && getProjectIndexByCellId(cellId, layout) !== -1) {
+            navigateToCell(cellId, true);
+            // Skip the zoom-in animation.
+            context.zoom = context.targetZoom;
+            context.distortion = context.targetDistortion;
+            context.zoomProgress = 1;
+        }
+        context.offset.copy(context.targetOffset);
+    }, [urlSync, isThreeInitialized, isSourceLoading, projects, threeContext, navigateToCell]);
+}
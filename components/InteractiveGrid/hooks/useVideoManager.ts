@@ -1,7 +1,7 @@
 import React, { useEffect, useCallback } from "react";
 import { ThreeContext } from "./types";
 import { Project } from "../../../types";
-import { getProjectByCellId } from "./hookUtils";
+import { getProjectByCellId, matchesFilter } from "./hookUtils";
 
 /**
  * @file Manages everything related to video playback. This includes:
@@ -10,13 +10,19 @@ import { getProjectByCellId } from "./hookUtils";
  * - Providing a `setVideoState` function to control which video plays.
  * - Handling the asynchronous logic of loading and playing videos.
  * - Preventing race conditions when the user hovers over cells quickly.
+ * - Playing gallery videos in the zoomed cell on request.
+ * - Skipping the videos of projects hidden by the `activeFilter` prop.
  */
 export function useVideoManager(
     mountRef: React.RefObject<HTMLDivElement>,
     threeContext: React.MutableRefObject<ThreeContext>,
     isThreeInitialized: boolean,
-    projects: Project[]
+    projects: Project[],
+    activeFilter?: string | string[] | null
 ) {
+    // Arrays are compared by content so an inline filter doesn't recreate `setVideoState`.
+    const filterKey = JSON.stringify(activeFilter ?? null);
+
     // This effect runs once to create the video element and its texture.
     useEffect(() => {
         if (!isThreeInitialized) return;
@@ -42,8 +48,10 @@ export function useVideoManager(
 
     /**
      * The core function to control video playback based on a cell ID.
+     * By default the cell's project video is played. Pass `src` to play another
+     * video in that cell instead, e.g. a clip from the project's gallery.
      */
-    const setVideoState = useCallback(async (cellId: any) => {
+    const setVideoState = useCallback(async (cellId: any, src?: string) => {
         const { current: context } = threeContext;
         const { videoRef, plane } = context;
         // The "nonce" is a counter to prevent old, slow-loading videos from
@@ -51,8 +59,9 @@ export function useVideoManager(
         const currentNonce = ++context.videoNonce;
         if (!videoRef || !plane) return;
 
-        const project = getProjectByCellId(cellId, projects);
-        const newSrc = project?.video;
+        const project = getProjectByCellId(cellId, projects, context.layout);
+        // A dimmed project doesn't preview its video. Explicit sources (gallery clips) always play.
+        const newSrc = src ?? (matchesFilter(project, activeFilter) ? project?.video : undefined);
 
         // Always start by pausing the current video and hiding it in the shader.
         plane.material.uniforms.uIsVideoActive.value = false;
@@ -79,7 +88,15 @@ export function useVideoManager(
             // Don't log "AbortError", which happens normally when we interrupt a load.
             if (error.name !== "AbortError") console.warn("Video playback failed for", newSrc, error);
         }
-    }, [threeContext, projects]);
+    }, [threeContext, projects, filterKey]);
+
+    // Stop the preview of the hovered project if the filter now hides it.
+    useEffect(() => {
+        const { current: context } = threeContext;
+        if (context.isZoomed || !context.hoveredCellId) return;
+        const project = getProjectByCellId(context.hoveredCellId, projects, context.layout);
+        if (!matchesFilter(project, activeFilter)) setVideoState(null);
+    }, [threeContext, setVideoState]);
 
     return { setVideoState };
 }
\ No newline at end of file
@@ -1,60 +1,201 @@
-import React from "react";
+import React, { forwardRef, useId } from "react";
 import { Project } from "../../types";
 import { useInteractiveGrid } from "./useInteractiveGrid";
+import { LayoutStrategy } from "./layout";
+import { ProjectSource, InteractiveGridHandle, SnapOptions, AutopilotOptions, AnimationSettings, GridProjectEvent, GridNavigationEvent, OpenMode, ProjectOpenEvent } from "./hooks/types";
+import GalleryControls from "./GalleryControls";
+import SearchOverlay from "./SearchOverlay";
+import Minimap from "./Minimap";
+import ProjectDetails, { ProjectDetailsRenderState } from "./ProjectDetails";
+import { UrlSyncMode } from "./urlState";
+import { ProjectDiagnostic } from "./validation";
+import { PostPass } from "./postprocessing";
+import { GridThemeSetting } from "./theme";
+
+export type { LayoutStrategy } from "./layout";
+export type { ProjectSource, InteractiveGridHandle, GridViewState, SnapOptions, AutopilotOptions, AnimationSettings, GridProjectEvent, GridNavigationEvent, OpenMode, ProjectOpenEvent } from "./hooks/types";
+export type { ProjectDiagnostic } from "./validation";
+export type { PostPass, PostPassState } from "./postprocessing";
+export type { GridTheme, GridThemeName, GridThemeSetting } from "./theme";
+export type { ProjectDetailsRenderState } from "./ProjectDetails";
+export type { SearchResult } from "./search";
+export type { UrlSyncMode } from "./urlState";
+export { validateProjects } from "./validation";
+export { registerPostPass } from "./postprocessing";
+export { GridThemes } from "./theme";
+export { useGridTheme } from "./hooks/useGridTheme";
+export { useProjectSource } from "./hooks/useProjectSource";
 
 export interface InteractiveGridProps {
     className?: string;
-    projects: Project[];
+    // A static list of projects. Also used as the fallback while a `source` is loading.
+    projects?: Project[];
+    // Loads projects from a JSON URL or an async loader instead of a static list.
+    source?: ProjectSource;
+    // Called with every problem found in the project data. Invalid projects are left out of the grid.
+    onDiagnostics?: (diagnostics: ProjectDiagnostic[]) => void;
     fontFamily: string;
     fontWeight: string | number;
-    backgroundColor: string;
-    borderColor: string;
-    hoverColor: string;
-    textColor: string;
+    // The colors of the grid and its panels: "dark" (the default), "light", "highContrast", "auto" to follow
+    // the system's light/dark setting, a theme object, or a `{ light, dark }` pair. Changes fade in.
+    theme?: GridThemeSetting;
+    // Override single colors of the theme.
+    backgroundColor?: string;
+    borderColor?: string;
+    hoverColor?: string;
+    textColor?: string;
     cellSize: number;
     distortionStrength: number;
     disableMobileHover: boolean;
     optimizeMobile: boolean;
+    // Only projects whose category or tags match one of these values stay fully visible.
+    activeFilter?: string | string[] | null;
+    // "infinite" repeats the projects forever, "finite" lays them out once in a bounded block.
+    layout?: "infinite" | "finite";
+    // The default number of columns for the "rowMajor" and "shuffle" layout strategies.
+    columns?: number;
+    // How projects are placed on the grid. Defaults to "rowMajor".
+    layoutStrategy?: LayoutStrategy;
+    // Shows a case study panel (description, client, role, tools, tags) next to a zoomed project. Defaults to true.
+    showDetails?: boolean;
+    // Replaces the contents of the detail panel with a custom layout.
+    renderDetails?: (project: Project, state: ProjectDetailsRenderState) => React.ReactNode;
+    // Lets users press "/" to open the search overlay while the grid has focus. Defaults to true.
+    searchEnabled?: boolean;
+    // Controls the search query from outside, e.g. from your own input. Matching cells are highlighted.
+    searchQuery?: string;
+    // Called when the query typed into the search overlay changes (or is cleared).
+    onSearchQueryChange?: (query: string) => void;
+    // Keeps the zoomed project and camera position in the URL ("hash" or "query"), so views can be shared.
+    urlSync?: UrlSyncMode;
+    // The closest and furthest zoom levels for pinching and ctrl+wheel. Smaller is closer.
+    minZoom?: number;
+    maxZoom?: number;
+    // How zooming uses the browser history, so Back zooms out instead of leaving the page.
+    // "none" (the default) leaves the history alone, "zoom" adds one entry per zoom, and "cell" also adds
+    // one per project visited while zoomed.
+    history?: "none" | "zoom" | "cell";
+    // Shows a small map of the project layout with the visible area marked. Click or drag on it to move.
+    showMinimap?: boolean;
+    // Eases the camera onto the cell grid once panning stops, so no cells are cut in half. Off by default.
+    snapToCell?: boolean | SnapOptions;
+    // Tours the grid on its own after a while without input, e.g. for a kiosk. Any input takes back control.
+    autopilot?: boolean | AutopilotOptions;
+    // Overrides the defaults in `AnimationConfig` for this grid only, e.g. `{ zoomedInLevel: 0.5 }`. Changes apply live.
+    animation?: Partial<AnimationSettings>;
+    // The post-processing passes drawn over the grid, in order: names of built-in or registered passes
+    // (see `registerPostPass`), or `PostPass` objects. Defaults to ["motionBlur", "vignette"]; [] turns them off.
+    postPasses?: (string | PostPass)[];
+    // Called when the user interacts with the grid, e.g. for analytics or updating the page title.
+    // Each one fires once per change, with the project, its index and its cell.
+    onHoverProjectChange?: (event: GridProjectEvent | null) => void; // null when no project is hovered
+    onZoomStart?: (event: GridProjectEvent) => void;    // A project starts zooming in
+    onZoomEnd?: (event: GridProjectEvent) => void;      // The zoom into a project has come to rest
+    onNavigate?: (event: GridNavigationEvent) => void;  // Moved to another project while zoomed
+    onUnzoom?: (event: GridProjectEvent) => void;       // Zoomed back out of a project
+    onOpenProject?: (event: GridProjectEvent) => void;  // Opened the zoomed project (see `openMode`)
+    // How the zoomed project's `href` is opened: in a "newTab" (the default), the "sameTab", or only by
+    // `onOpen` ("custom"), e.g. to push a route in a single-page app.
+    openMode?: OpenMode;
+    // Called when the zoomed project is opened, before any navigation. Call `event.preventDefault()` to handle it yourself.
+    onOpen?: (project: Project, event: ProjectOpenEvent) => void;
+    // Opens the zoomed project when its image is tapped again, instead of zooming out.
+    openOnSecondTap?: boolean;
+    // Controls which project is zoomed in on from outside, e.g. from a router param (null for none).
+    // The grid then only reports the user's zooms through `onZoomedProjectIndexChange`, and follows the prop.
+    // The index is a position in `projects` (or the loaded `source`), counting projects that validation left out.
+    zoomedProjectIndex?: number | null;
+    // Called when the zoomed project changes, or (when controlled) when the user asks for a change.
+    onZoomedProjectIndexChange?: (index: number | null) => void;
 }
 
-export default function InteractiveGrid(props: InteractiveGridProps) {
+const InteractiveGrid = forwardRef(function InteractiveGrid(props: InteractiveGridProps, ref: React.Ref<InteractiveGridHandle>) {
+    const { showDetails = true, renderDetails, openMode = "newTab" } = props;
     const { 
         mountRef, 
         linkRef, 
+        handleLinkClick,
         zoomedProject, 
         isZoomed, 
+        gallery,
+        search,
+        minimap,
+        theme,
+        focusedProject,
         cursor, 
         eventHandlers 
-    } = useInteractiveGrid(props);
+    } = useInteractiveGrid(props, ref);
+    // Unique per grid, so several grids on a page each point at their own instructions.
+    const instructionsId = useId();
 
     return (
         <div
             ref={mountRef}
-            className={`${props.className} touch-none overflow-hidden relative`}
-            style={{ cursor }}
+            className={`${props.className} touch-none overflow-hidden relative outline-none`}
+            // The theme's colors, for the panels and the link below.
+            style={{
+                cursor,
+                "--grid-border": theme.border, "--grid-hover": theme.hover, "--grid-accent": theme.accent,
+                "--grid-overlay": theme.overlay, "--grid-link": theme.link, "--grid-text": theme.text,
+            }}
+            tabIndex={0}
+            role="application"
+            aria-label="Project grid"
+            aria-describedby={instructionsId}
             {...eventHandlers}
         >
+            {/* Screen reader instructions, and an announcement of the project under the keyboard focus. */}
+            <p id={instructionsId} className="sr-only">
+                Use the arrow keys to move between projects, Enter to open one, Escape to close it, and plus or minus to zoom.
+            </p>
+            <p className="sr-only" aria-live="polite">
+                {focusedProject ? `${focusedProject.title}${focusedProject.year !== undefined ? `, ${focusedProject.year}` : ""}` : ""}
+            </p>
             {/* Loading indicator removed as requested. The grid will appear once textures are ready. */}
+            <SearchOverlay
+                isOpen={search.isOpen}
+                query={search.query}
+                results={search.results}
+                onQueryChange={search.setQuery}
+                onSelect={search.select}
+                onClose={search.close}
+            />
+            {props.showMinimap && (
+                <Minimap canvasRef={minimap.canvasRef} isOpen={!isZoomed} handlers={minimap.minimapHandlers} />
+            )}
+            <GalleryControls
+                items={gallery.items}
+                index={gallery.index}
+                isOpen={isZoomed}
+                onStep={gallery.step}
+                onSelect={gallery.goTo}
+            />
+            {showDetails && (
+                <ProjectDetails project={zoomedProject} isOpen={isZoomed} renderDetails={renderDetails} />
+            )}
             <a
                 ref={linkRef}
-                href={zoomedProject?.href}
-                target="_blank"
-                rel="noopener noreferrer"
-                tabIndex={zoomedProject ? 0 : -1}
+                href={zoomedProject?.href || undefined}
+                target={openMode === "newTab" ? "_blank" : undefined}
+                rel={openMode === "newTab" ? "noopener noreferrer" : undefined}
+                tabIndex={zoomedProject?.href ? 0 : -1}
                 aria-label={`View details for ${zoomedProject?.title}`}
+                onClick={handleLinkClick}
                 onPointerDown={(e) => e.stopPropagation()}
                 onPointerUp={(e) => e.stopPropagation()}
                 onPointerMove={(e) => e.stopPropagation()}
-                className={`absolute bottom-12 left-1/2 -translate-x-1/2 text-white text-lg md:text-xl no-underline z-10 transition-opacity duration-500 ease-in-out
-                ${isZoomed && zoomedProject ? "opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"}`}
+                className={`absolute bottom-12 left-1/2 -translate-x-1/2 text-[var(--grid-link)] text-lg md:text-xl no-underline z-10 transition-opacity duration-500 ease-in-out
+                ${isZoomed && zoomedProject?.href ? "opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"}`}
             >
                 <span className="relative py-1 px-2">
                     View Project
-                    <span className={`absolute bottom-0 left-0 w-full h-px bg-white origin-left transition-transform duration-700 ease-out delay-300
+                    <span className={`absolute bottom-0 left-0 w-full h-px bg-[var(--grid-link)] origin-left transition-transform duration-700 ease-out delay-300
                     ${isZoomed ? "scale-x-100" : "scale-x-0"}`}
                     ></span>
                 </span>
             </a>
         </div>
     );
-}
\ No newline at end of file
+});
+
+export default InteractiveGrid;
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { buildProjectLayout, getLayoutCell, getLayoutIndex, findNearestProjectCell, createLayoutTexture, ProjectLayout } from "./layout";
+
+// A span-less project list of the given length.
+const singles = (count: number) => Array.from({ length: count }, () => undefined);
+
+// Builds a layout that's known to have projects.
+const build = (...args: Parameters<typeof buildProjectLayout>): ProjectLayout => {
+    const layout = buildProjectLayout(...args);
+    if (!layout) throw new Error("Expected a layout");
+    return layout;
+};
+
+describe("buildProjectLayout", () => {
+    it("returns null without projects", () => {
+        expect(buildProjectLayout({ type: "rowMajor" }, [], "infinite", 3)).toBeNull();
+    });
+
+    it("places rowMajor projects left to right, top to bottom", () => {
+        const layout = build({ type: "rowMajor", columns: 3 }, singles(5), "finite", 4);
+        expect([0, 1, 2].map(x => getLayoutIndex(layout, x, 0))).toEqual([0, 1, 2]);
+        expect([0, 1, 2].map(x => getLayoutIndex(layout, x, -1))).toEqual([3, 4, -1]);
+    });
+
+    it("falls back to the default column count", () => {
+        const layout = build({ type: "rowMajor" }, singles(4), "finite", 2);
+        expect(layout.width).toBe(2);
+        expect(layout.height).toBe(2);
+    });
+
+    it("leaves the cells outside a finite layout empty", () => {
+        const layout = build({ type: "rowMajor", columns: 2 }, singles(4), "finite", 4);
+        expect(getLayoutIndex(layout, 2, 0)).toBe(-1);
+        expect(getLayoutIndex(layout, 0, 1)).toBe(-1);
+        expect(getLayoutIndex(layout, -1, 0)).toBe(-1);
+    });
+
+    it("repeats an infinite layout and fills its holes", () => {
+        const layout = build({ type: "rowMajor", columns: 3 }, singles(5), "infinite", 4);
+        expect(getLayoutIndex(layout, 3, 0)).toBe(0);
+        expect(getLayoutIndex(layout, -2, 0)).toBe(1);
+        expect(getLayoutIndex(layout, 0, 1)).toBe(3);
+        expect(getLayoutIndex(layout, 2, -1)).not.toBe(-1);
+    });
+
+    it("packs spanned projects into blocks", () => {
+        const layout = build({ type: "rowMajor", columns: 3 }, [{ columns: 2, rows: 2 }, undefined, undefined], "finite", 3);
+        expect(getLayoutCell(layout, 1, -1)).toEqual({ index: 0, x: 0, y: -1, width: 2, height: 2 });
+        expect(getLayoutCell(layout, 0, 0)).toEqual({ index: 0, x: 0, y: -1, width: 2, height: 2 });
+        expect(getLayoutIndex(layout, 2, 0)).toBe(1);
+        expect(getLayoutIndex(layout, 2, -1)).toBe(2);
+    });
+
+    it("shuffles every project into the layout once, the same way for the same seed", () => {
+        const indicesOf = (seed: number) => Array.from(build({ type: "shuffle", seed, columns: 4 }, singles(8), "finite", 4).indices);
+        expect([...indicesOf(7)].sort()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+        expect(indicesOf(7)).toEqual(indicesOf(7));
+    });
+
+    it("spirals outwards from the origin", () => {
+        const layout = build({ type: "spiral" }, singles(4), "finite", 4);
+        expect(getLayoutIndex(layout, 0, 0)).toBe(0);
+        expect(getLayoutIndex(layout, 1, 0)).toBe(1);
+        expect(getLayoutIndex(layout, 1, 1)).toBe(2);
+        expect(getLayoutIndex(layout, 0, 1)).toBe(3);
+    });
+
+    it("asks a custom strategy for every cell, and leaves out invalid indices", () => {
+        const layout = build(
+            { type: "custom", width: 2, height: 2, getProjectIndex: (column, row) => row * 2 + column },
+            singles(3),
+            "finite",
+            4
+        );
+        expect(getLayoutIndex(layout, 0, 0)).toBe(0);
+        expect(getLayoutIndex(layout, 1, 0)).toBe(1);
+        expect(getLayoutIndex(layout, 0, -1)).toBe(2);
+        expect(getLayoutIndex(layout, 1, -1)).toBe(-1);
+    });
+});
+
+describe("createLayoutTexture", () => {
+    // Just enough of Three.js to build the texture.
+    const THREE = {
+        RGBAFormat: "rgba",
+        NearestFilter: "nearest",
+        DataTexture: class {
+            constructor(public image: Uint8Array, public width: number, public height: number, public format: string) {}
+        },
+    };
+
+    it("stores every cell's project index plus one, bottom row first", () => {
+        const texture = createLayoutTexture(build({ type: "rowMajor", columns: 2 }, singles(3), "finite", 2), THREE);
+        // The bottom row holds project 2 and an empty cell (stored as 0).
+        expect(Array.from(texture.image.subarray(0, 8))).toEqual([3, 0, 0, 0, 0, 0, 0, 0]);
+        expect(Array.from(texture.image.subarray(8, 16))).toEqual([1, 0, 0, 0, 2, 0, 0, 0]);
+        expect(texture.magFilter).toBe("nearest");
+    });
+
+    it("encodes the block of every cell", () => {
+        const layout = build({ type: "rowMajor", columns: 2 }, [{ columns: 2, rows: 2 }], "finite", 2);
+        const texture = createLayoutTexture(layout, THREE);
+        // The top-right cell: project 0 (stored as 1), at offset (1, 1) in a 2 x 2 block.
+        expect(Array.from(texture.image.subarray(12, 16))).toEqual([1, 0, 1 + 16, 1 + 16]);
+    });
+});
+
+describe("findNearestProjectCell", () => {
+    it("finds the closest copy of a project in a repeating layout", () => {
+        const layout = build({ type: "rowMajor", columns: 3 }, singles(3), "infinite", 3);
+        expect(findNearestProjectCell(layout, 0, 10, 0)).toMatchObject({ index: 0, x: 9, y: 0 });
+        expect(findNearestProjectCell(layout, 2, -4, 0)).toMatchObject({ index: 2, x: -4, y: 0 });
+    });
+
+    it("returns null for a project the layout doesn't place", () => {
+        const layout = build({ type: "rowMajor", columns: 3 }, singles(3), "finite", 3);
+        expect(findNearestProjectCell(layout, 5, 0, 0)).toBeNull();
+    });
+});
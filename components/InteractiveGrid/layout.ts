@@ -0,0 +1,351 @@
+/**
+ * @file Decides which project is shown in which grid cell.
+ * A layout strategy is "baked" on the CPU into a small tile of project indices.
+ * That tile is then used in two places, so they can never disagree:
+ * - It's uploaded as a lookup texture that the fragment shader reads from.
+ * - It's used by the JS hit-testing (`getProjectByCellId`) to find the tapped project.
+ * In the "infinite" mode the tile repeats forever, in the "finite" mode it's drawn once.
+ * Projects with a `span` occupy a block of several cells, which is stored per cell
+ * as the cell's position inside the block plus the block's size.
+ */
+
+/**
+ * The available strategies for placing projects on the grid.
+ * - `rowMajor`: Left to right, top to bottom, in rows of `columns` cells.
+ * - `shuffle`: Like `rowMajor`, but in a random order that's stable for a given `seed`.
+ * - `spiral`: Spirals outwards from the cell at the origin, so the first projects are in the middle.
+ * - `custom`: Calls `getProjectIndex` for every cell of a `width` x `height` tile. Columns go
+ *   left to right and rows top to bottom. Return -1 to leave a cell empty. The function may be
+ *   inline: it's only called when the layout is rebuilt (when the projects or the strategy's
+ *   other fields change), so change one of those to apply a new function.
+ * Project spans are honored by `rowMajor` and `shuffle`, which pack blocks into the
+ * first free space that fits. `spiral` and `custom` place every project in a single cell.
+ */
+export type LayoutStrategy =
+    | { type: "rowMajor"; columns?: number }
+    | { type: "shuffle"; seed?: number; columns?: number }
+    | { type: "spiral" }
+    | {
+          type: "custom";
+          width: number;
+          height: number;
+          getProjectIndex: (column: number, row: number, projectCount: number) => number;
+      };
+
+/**
+ * A baked layout: a tile of project indices and where it sits on the grid.
+ */
+export interface ProjectLayout {
+    width: number;        // The width of the tile in cells
+    height: number;       // The height of the tile in cells
+    originX: number;      // The cell ID of the tile's bottom-left cell
+    originY: number;
+    repeat: boolean;      // True if the tile repeats infinitely in every direction
+    indices: Int32Array;  // One project index per cell (-1 = empty), bottom row first
+    blocks: Uint8Array;   // Four values per cell: its x/y offset from the block's bottom-left cell, and the block's width/height
+}
+
+/**
+ * The size of a project's block in cells, see `Project.span`.
+ */
+export interface ProjectSpan {
+    columns: number;
+    rows: number;
+}
+
+/**
+ * A cell resolved through a layout: which project it shows, and the block it belongs to.
+ */
+export interface LayoutCell {
+    index: number;   // The project index
+    x: number;       // The cell ID of the block's bottom-left cell
+    y: number;
+    width: number;   // The size of the block in cells (1 x 1 for a normal project)
+    height: number;
+}
+
+// Spans are stored in 4 bits of the lookup texture, which limits blocks to this many cells per side.
+const MAX_SPAN = 8;
+
+const normalizeSpan = (span: ProjectSpan | undefined, maxColumns: number) => ({
+    columns: Math.min(Math.max(1, Math.floor(span?.columns ?? 1)), maxColumns, MAX_SPAN),
+    rows: Math.min(Math.max(1, Math.floor(span?.rows ?? 1)), MAX_SPAN),
+});
+
+/**
+ * A small, seedable pseudo-random number generator (mulberry32).
+ * Used so a shuffled layout stays the same between renders and page loads.
+ */
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Creates an empty tile of the given size.
+ */
+const createEmptyLayout = (width: number, height: number, originX: number, originY: number, repeat: boolean): ProjectLayout => ({
+    width, height, originX, originY, repeat,
+    indices: new Int32Array(width * height).fill(-1),
+    blocks: new Uint8Array(width * height * 4),
+});
+
+/**
+ * Fills a block of cells with one project. `tileX`/`tileY` is the block's bottom-left cell in the tile.
+ */
+const placeBlock = (layout: ProjectLayout, tileX: number, tileY: number, index: number, columns = 1, rows = 1) => {
+    for (let dy = 0; dy < rows; dy++) {
+        for (let dx = 0; dx < columns; dx++) {
+            const cell = (tileX + dx) + (tileY + dy) * layout.width;
+            layout.indices[cell] = index;
+            layout.blocks.set([dx, dy, columns, rows], cell * 4);
+        }
+    }
+};
+
+/**
+ * Builds a layout whose top-left cell is the cell at (0, 0), with rows growing downwards
+ * (towards negative y in world space).
+ */
+const createBlockLayout = (
+    width: number,
+    height: number,
+    repeat: boolean,
+    getIndex: (column: number, row: number) => number
+): ProjectLayout => {
+    const layout = createEmptyLayout(width, height, 0, 1 - height, repeat);
+    for (let row = 0; row < height; row++) {
+        for (let column = 0; column < width; column++) {
+            // The tile is stored bottom row first, matching the direction of world-space y.
+            placeBlock(layout, column, height - 1 - row, getIndex(column, row));
+        }
+    }
+    return layout;
+};
+
+/**
+ * Packs a list of project indices row by row into a block of `columns` cells.
+ * Each project takes the first free space (left to right, top to bottom) its span fits in.
+ * When repeating, the cells left over by the packing are filled by cycling through the
+ * single-cell projects, so the infinite grid never shows holes.
+ */
+const createPackedLayout = (order: number[], spans: (ProjectSpan | undefined)[], columns: number, repeat: boolean) => {
+    const blocks = order.map(index => ({ index, ...normalizeSpan(spans[index], columns) }));
+    const area = blocks.reduce((sum, block) => sum + block.columns * block.rows, 0);
+    const width = Math.max(Math.min(columns, area), ...blocks.map(block => block.columns));
+
+    // Find a spot for every block, growing the grid of occupied cells downwards as needed.
+    const occupied: boolean[][] = [];
+    const isFree = (column: number, row: number, block: ProjectSpan) => {
+        for (let r = row; r < row + block.rows; r++) {
+            for (let c = column; c < column + block.columns; c++) {
+                if (occupied[r]?.[c]) return false;
+            }
+        }
+        return true;
+    };
+    const placements = blocks.map(block => {
+        for (let row = 0; ; row++) {
+            for (let column = 0; column + block.columns <= width; column++) {
+                if (!isFree(column, row, block)) continue;
+                for (let r = row; r < row + block.rows; r++) {
+                    occupied[r] = occupied[r] ?? [];
+                    for (let c = column; c < column + block.columns; c++) occupied[r][c] = true;
+                }
+                return { ...block, column, row };
+            }
+        }
+    });
+
+    const height = occupied.length;
+    const layout = createEmptyLayout(width, height, 0, 1 - height, repeat);
+    placements.forEach(({ index, column, row, columns: blockColumns, rows }) => {
+        // Convert the block's top-left row into the tile's bottom-up coordinates.
+        placeBlock(layout, column, height - row - rows, index, blockColumns, rows);
+    });
+
+    if (repeat) {
+        const singles = blocks.filter(block => block.columns === 1 && block.rows === 1);
+        const fillers = (singles.length > 0 ? singles : blocks).map(block => block.index);
+        let nextFiller = 0;
+        for (let row = 0; row < height; row++) {
+            for (let column = 0; column < width; column++) {
+                const tileY = height - 1 - row;
+                if (layout.indices[column + tileY * width] !== -1) continue;
+                placeBlock(layout, column, tileY, fillers[nextFiller++ % fillers.length]);
+            }
+        }
+    }
+    return layout;
+};
+
+/**
+ * Walks a square spiral outwards from the cell at (0, 0).
+ * The first k*k cells of the spiral always form a k x k square.
+ */
+const getSpiralCells = (count: number) => {
+    const cells: { x: number; y: number }[] = [];
+    let x = 0, y = 0, dx = 1, dy = 0, legLength = 1, legProgress = 0, legsDone = 0;
+    for (let i = 0; i < count; i++) {
+        cells.push({ x, y });
+        x += dx; y += dy;
+        if (++legProgress === legLength) {
+            legProgress = 0;
+            // Turn counter-clockwise (right, up, left, down), growing every second leg.
+            [dx, dy] = [-dy, dx];
+            if (++legsDone % 2 === 0) legLength++;
+        }
+    }
+    return cells;
+};
+
+const createSpiralLayout = (projectCount: number, repeat: boolean): ProjectLayout => {
+    // When repeating, fill a whole square so the tile has no holes.
+    const side = Math.ceil(Math.sqrt(projectCount));
+    const cells = getSpiralCells(repeat ? side * side : projectCount);
+
+    const minX = Math.min(...cells.map(c => c.x));
+    const minY = Math.min(...cells.map(c => c.y));
+    const width = Math.max(...cells.map(c => c.x)) - minX + 1;
+    const height = Math.max(...cells.map(c => c.y)) - minY + 1;
+
+    const layout = createEmptyLayout(width, height, minX, minY, repeat);
+    cells.forEach((cell, i) => placeBlock(layout, cell.x - minX, cell.y - minY, i % projectCount));
+    return layout;
+};
+
+/**
+ * Bakes a layout strategy into a tile of project indices.
+ * @param strategy - How to place the projects.
+ * @param spans - The span of every project (`undefined` for a single cell), one entry per project.
+ * @param mode - "infinite" to repeat the tile forever, "finite" to draw it once.
+ * @param defaultColumns - The number of columns used when the strategy doesn't specify one.
+ * @returns The baked layout, or null if there are no projects.
+ */
+export const buildProjectLayout = (
+    strategy: LayoutStrategy,
+    spans: (ProjectSpan | undefined)[],
+    mode: "infinite" | "finite",
+    defaultColumns: number
+): ProjectLayout | null => {
+    const projectCount = spans.length;
+    if (projectCount <= 0) return null;
+    const repeat = mode === "infinite";
+    const order = Array.from({ length: projectCount }, (_, i) => i);
+
+    switch (strategy.type) {
+        case "shuffle": {
+            const random = createRandom(strategy.seed ?? 1);
+            // Fisher-Yates shuffle using the seeded generator.
+            for (let i = order.length - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                [order[i], order[j]] = [order[j], order[i]];
+            }
+            return createPackedLayout(order, spans, Math.max(1, Math.floor(strategy.columns ?? defaultColumns)), repeat);
+        }
+        case "spiral":
+            return createSpiralLayout(projectCount, repeat);
+        case "custom": {
+            const width = Math.max(1, Math.floor(strategy.width));
+            const height = Math.max(1, Math.floor(strategy.height));
+            return createBlockLayout(width, height, repeat, (column, row) => {
+                const index = Math.floor(strategy.getProjectIndex(column, row, projectCount));
+                return index >= 0 && index < projectCount ? index : -1;
+            });
+        }
+        case "rowMajor":
+        default:
+            return createPackedLayout(order, spans, Math.max(1, Math.floor(strategy.columns ?? defaultColumns)), repeat);
+    }
+};
+
+/**
+ * Looks up a cell in a baked layout, including the block it's part of.
+ * Must stay in sync with `getLayoutCell` in shaders.ts.
+ * @returns The resolved cell, or null if the cell is empty.
+ */
+export const getLayoutCell = (layout: ProjectLayout, cellX: number, cellY: number): LayoutCell | null => {
+    const x = Math.floor(cellX);
+    const y = Math.floor(cellY);
+    let tileX = x - layout.originX;
+    let tileY = y - layout.originY;
+    if (layout.repeat) {
+        tileX = ((tileX % layout.width) + layout.width) % layout.width;
+        tileY = ((tileY % layout.height) + layout.height) % layout.height;
+    } else if (tileX < 0 || tileY < 0 || tileX >= layout.width || tileY >= layout.height) {
+        return null;
+    }
+
+    const cell = tileX + tileY * layout.width;
+    const index = layout.indices[cell];
+    if (index === -1) return null;
+    const [offsetX, offsetY, width, height] = layout.blocks.subarray(cell * 4, cell * 4 + 4);
+    return { index, x: x - offsetX, y: y - offsetY, width, height };
+};
+
+/**
+ * Looks up the project index of a cell in a baked layout.
+ * @returns The project index, or -1 if the cell is empty.
+ */
+export const getLayoutIndex = (layout: ProjectLayout, cellX: number, cellY: number): number => {
+    return getLayoutCell(layout, cellX, cellY)?.index ?? -1;
+};
+
+/**
+ * Finds the block of a project that's closest to a cell. In a repeating layout
+ * every tile holds a copy of the project, so the nearest copy is returned.
+ * @returns The project's block, or null if the layout doesn't place the project.
+ */
+export const findNearestProjectCell = (layout: ProjectLayout, projectIndex: number, fromX: number, fromY: number): LayoutCell | null => {
+    let nearest: LayoutCell | null = null;
+    let nearestDistance = Infinity;
+    layout.indices.forEach((index, cell) => {
+        // Only look at the bottom-left cell of each block.
+        if (index !== projectIndex || layout.blocks[cell * 4] !== 0 || layout.blocks[cell * 4 + 1] !== 0) return;
+        const width = layout.blocks[cell * 4 + 2];
+        const height = layout.blocks[cell * 4 + 3];
+        let x = layout.originX + (cell % layout.width);
+        let y = layout.originY + Math.floor(cell / layout.width);
+        if (layout.repeat) {
+            // Move to the copy of the tile that's closest to the starting cell.
+            x += Math.round((fromX - x - width / 2) / layout.width) * layout.width;
+            y += Math.round((fromY - y - height / 2) / layout.height) * layout.height;
+        }
+        const distance = Math.hypot(x + width / 2 - fromX, y + height / 2 - fromY);
+        if (distance < nearestDistance) {
+            nearestDistance = distance;
+            nearest = { index, x, y, width, height };
+        }
+    });
+    return nearest;
+};
+
+/**
+ * Creates the lookup texture the shader uses to find each cell's project.
+ * Every texel stores `index + 1` as a 16-bit number in its red (low byte) and
+ * green (high byte) channels, so 0 means "empty". The blue and alpha channels hold
+ * the cell's x and y offset inside its block (low 4 bits) and the block's
+ * width and height minus one (high 4 bits).
+ */
+export const createLayoutTexture = (layout: ProjectLayout, THREE: any) => {
+    const data = new Uint8Array(layout.width * layout.height * 4);
+    layout.indices.forEach((index, i) => {
+        const encoded = index + 1;
+        data[i * 4] = encoded & 0xff;
+        data[i * 4 + 1] = (encoded >> 8) & 0xff;
+        const [offsetX, offsetY, width, height] = layout.blocks.subarray(i * 4, i * 4 + 4);
+        data[i * 4 + 2] = offsetX + Math.max(width - 1, 0) * 16;
+        data[i * 4 + 3] = offsetY + Math.max(height - 1, 0) * 16;
+    });
+    const texture = new THREE.DataTexture(data, layout.width, layout.height, THREE.RGBAFormat);
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+};
@@ -0,0 +1,80 @@
+import { motionBlurShader, vignetteShader } from "./shaders";
+
+/**
+ * @file The post-processing passes that run after the grid scene is drawn.
+ * The scene shader draws the grid into a render target. Each pass then reads the
+ * previous result as `tDiffuse` and draws over the whole screen, and the last pass
+ * draws to the canvas. Passes are listed in the `postPasses` prop, either by name
+ * (the built-in ones, or ones added with `registerPostPass`) or as `PostPass` objects.
+ * Built-in passes:
+ * - `motionBlur`: A radial blur while zooming in or out of a project (desktop only).
+ * - `vignette`: Darkens the corners of the screen.
+ */
+
+/**
+ * A full-screen GLSL pass. The fragment shader gets `tDiffuse`, `uResolution`, `uTime`,
+ * `uZoomProgress`, `uOptimizeMobile` and `vUv` declared for it (see `postUniformsHeader`),
+ * and writes its color to `gl_FragColor`.
+ */
+export interface PostPass {
+    name: string;
+    fragmentShader: string;
+    // Extra uniforms, in the Three.js `{ value }` form. They're used as they are, so
+    // changing e.g. `uniforms.uAmount.value` later animates the pass.
+    uniforms?: Record<string, { value: any }>;
+    // Set to false to skip the pass, without recompiling the others.
+    enabled?: boolean;
+    // Called every frame. Return false to skip the pass while it wouldn't change anything,
+    // which saves a full-screen draw. When every pass is skipped, the scene is drawn straight to the canvas.
+    isActive?: (state: PostPassState) => boolean;
+}
+
+/**
+ * The state of the grid passed to `PostPass.isActive`.
+ */
+export interface PostPassState {
+    zoomProgress: number;       // A 0-1 value representing the zoom animation progress
+    optimizeMobile: boolean;    // Whether performance-intensive effects are turned off (on mobile)
+}
+
+// The passes that can be listed by name, starting with the built-in ones.
+const registeredPasses = new Map<string, PostPass>([
+    ["motionBlur", {
+        name: "motionBlur",
+        fragmentShader: motionBlurShader,
+        // Matches the early return in the shader: only blur while zooming, and never on mobile.
+        isActive: ({ zoomProgress, optimizeMobile }) => !optimizeMobile && Math.sin(zoomProgress * Math.PI) > 0.01,
+    }],
+    ["vignette", { name: "vignette", fragmentShader: vignetteShader }],
+]);
+
+// The passes used when the `postPasses` prop isn't set, in order.
+export const DEFAULT_POST_PASSES = ["motionBlur", "vignette"];
+
+/**
+ * Makes a pass available by its name in the `postPasses` prop of every grid.
+ * Registering a pass under an existing name (including a built-in one) replaces it.
+ */
+export const registerPostPass = (pass: PostPass) => {
+    registeredPasses.set(pass.name, pass);
+};
+
+/**
+ * Returns a key that only changes when the passes in a `postPasses` list do, by their names.
+ */
+export const getPostPassesKey = (passes: (string | PostPass)[]) => {
+    return passes.map(pass => (typeof pass === "string" ? pass : pass.name)).join("|");
+};
+
+/**
+ * Turns a `postPasses` list into the passes to run, in order.
+ * Names that aren't registered are left out, with a warning.
+ */
+export const resolvePostPasses = (passes: (string | PostPass)[]): PostPass[] => {
+    return passes.flatMap(pass => {
+        if (typeof pass !== "string") return [pass];
+        const registered = registeredPasses.get(pass);
+        if (!registered) console.warn(`Unknown post pass "${pass}". Register it with registerPostPass first.`);
+        return registered ? [registered] : [];
+    });
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "../../types";
+import { fuzzyScore, searchProjects } from "./search";
+
+const project = (title: string, tags?: string[]): Project => ({ title, image: "", href: "", tags });
+
+describe("fuzzyScore", () => {
+    it("matches the query's characters in order, ignoring case and spaces", () => {
+        expect(fuzzyScore("mst", "Motion Study")).toBeGreaterThan(0);
+        expect(fuzzyScore("M S", "motion study")).toBeGreaterThan(0);
+        expect(fuzzyScore("tm", "Motion")).toBe(0);
+        expect(fuzzyScore("xyz", "Motion Study")).toBe(0);
+    });
+
+    it("doesn't match an empty query", () => {
+        expect(fuzzyScore("", "Motion Study")).toBe(0);
+    });
+
+    it("ranks consecutive characters at the start of a word higher", () => {
+        expect(fuzzyScore("mot", "Motion Study")).toBeGreaterThan(fuzzyScore("mot", "Remote"));
+        expect(fuzzyScore("st", "Motion Study")).toBeGreaterThan(fuzzyScore("st", "Pastel"));
+    });
+
+    it("prefers shorter texts", () => {
+        expect(fuzzyScore("form", "Form")).toBeGreaterThan(fuzzyScore("form", "Form Study"));
+    });
+});
+
+describe("searchProjects", () => {
+    const projects = [
+        project("Idle Form"),
+        project("Motion Study", ["Animation"]),
+        project("Type Specimen", ["motion"]),
+    ];
+
+    it("matches nothing for an empty query", () => {
+        expect(searchProjects(projects, "  ")).toEqual([]);
+    });
+
+    it("returns the matches best first, with their index in the list", () => {
+        const results = searchProjects(projects, "motion");
+        expect(results.map(result => result.index)).toEqual([1, 2]);
+        expect(results[0].project).toBe(projects[1]);
+    });
+
+    it("weighs a tag match below a title match", () => {
+        const [titleMatch, tagMatch] = searchProjects(projects, "motion");
+        expect(tagMatch.score).toBeCloseTo(fuzzyScore("motion", "motion") * 0.8);
+        expect(titleMatch.score).toBeGreaterThan(tagMatch.score);
+    });
+
+    it("leaves out projects that aren't searchable", () => {
+        const results = searchProjects(projects, "motion", candidate => candidate !== projects[1]);
+        expect(results.map(result => result.index)).toEqual([2]);
+    });
+});
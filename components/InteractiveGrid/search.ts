@@ -0,0 +1,67 @@
+import { Project } from "../../types";
+
+/**
+ * @file Fuzzy matching of projects for the search overlay.
+ * A query matches a text if its characters appear in the text in order, like
+ * "mst" in "Motion Study". Matches score higher when the characters are next to
+ * each other or start a word, so "mot" ranks "Motion Study" above "Idle Form".
+ * Titles and tags are searched, and a title match outweighs a tag match.
+ */
+
+export interface SearchResult {
+    index: number;      // The index of the project in the project list
+    project: Project;
+    score: number;      // Higher is a better match
+}
+
+// How much a tag match counts compared to a title match.
+const TAG_WEIGHT = 0.8;
+
+/**
+ * Scores how well a query fuzzy-matches a text.
+ * @returns A score above 0, or 0 if the query's characters don't all appear in order.
+ */
+export const fuzzyScore = (query: string, text: string): number => {
+    const needle = query.toLowerCase();
+    const haystack = text.toLowerCase();
+    if (!needle) return 0;
+
+    let score = 0;
+    let position = 0;
+    let previousMatch = -2;
+    for (const char of needle) {
+        if (char === " ") continue;
+        const match = haystack.indexOf(char, position);
+        if (match === -1) return 0;
+
+        score += 1;
+        if (match === previousMatch + 1) score += 2;                    // Consecutive characters
+        if (match === 0 || /[\s\-_/]/.test(haystack[match - 1])) score += 3; // The start of a word
+        previousMatch = match;
+        position = match + 1;
+    }
+    // Prefer shorter texts, so an exact match beats a longer one containing it.
+    return score / (1 + haystack.length * 0.01);
+};
+
+/**
+ * Finds the projects whose title or tags fuzzy-match a query, best match first.
+ * @param projects - The projects to search.
+ * @param query - The search text. An empty query matches nothing.
+ * @param isSearchable - Optionally excludes projects, e.g. ones hidden by the active filter.
+ */
+export const searchProjects = (
+    projects: Project[],
+    query: string,
+    isSearchable: (project: Project) => boolean = () => true
+): SearchResult[] => {
+    if (!query.trim()) return [];
+    return projects
+        .map((project, index) => {
+            const titleScore = fuzzyScore(query, project.title);
+            const tagScore = Math.max(0, ...(project.tags ?? []).map(tag => fuzzyScore(query, tag) * TAG_WEIGHT));
+            return { index, project, score: Math.max(titleScore, tagScore) };
+        })
+        .filter(result => result.score > 0 && isSearchable(result.project))
+        .sort((a, b) => b.score - a.score);
+};
@@ -25,16 +25,36 @@ export const fragmentShader = `
   uniform vec4 uBorderColor;        // The color and opacity of the grid lines
   uniform vec4 uHoverColor;         // The additive color when hovering over a cell
   uniform vec4 uBackgroundColor;    // The base background color of the grid
+  uniform vec4 uAccentColor;        // The color of search highlights, the focus ring and hovered text
   
   // Textures & Data
   uniform float uTextureCount;      // The total number of projects/textures
   uniform sampler2D uImageAtlas;    // A texture containing all project images
   uniform sampler2D uTextAtlas;     // A texture containing all project text
+  uniform sampler2D uPrevTextAtlas; // The text atlas being faded out after a theme change
+  uniform float uTextMix;           // The 0-1 crossfade progress from uPrevTextAtlas to uTextAtlas
   uniform sampler2D uActiveVideo;   // A texture for the currently active video preview
+  uniform sampler2D uProjectMask;   // One texel per project: R = how much the project is filtered out, G = how much it's highlighted by search
+
+  // Layout (see layout.ts)
+  uniform sampler2D uLayoutTexture; // The lookup tile: each texel stores a cell's project index + 1
+  uniform vec2 uLayoutSize;         // The size of the lookup tile in cells
+  uniform vec2 uLayoutOrigin;       // The cell ID of the tile's bottom-left cell
+  uniform bool uLayoutRepeat;       // True if the tile repeats infinitely, false for a bounded block
+
+  // Gallery (see useGallery)
+  uniform bool uGalleryActive;          // True once the user has stepped through the zoomed project's gallery
+  uniform vec2 uGalleryCellId;          // The ID of the block the gallery is shown in
+  uniform sampler2D uGalleryTexture;    // The current gallery item (a high-res image or the video texture)
+  uniform sampler2D uGalleryPrevTexture; // The gallery item being faded out
+  uniform bool uGalleryFromBase;        // True to fade out of the cell's normal image instead of uGalleryPrevTexture
+  uniform float uGalleryMix;            // The 0-1 crossfade progress towards uGalleryTexture
 
   // Effects & State
   uniform float uDistortionStrength; // The strength of the barrel distortion effect
   uniform vec2 uHoveredCellId;       // The ID of the cell the video is playing for
+  uniform vec2 uFocusedCellId;       // The ID of the block with keyboard focus
+  uniform bool uFocusVisible;        // True while the keyboard focus ring should be shown
   uniform bool uIsVideoActive;       // Flag indicating if a video is currently playing
   uniform float uZoomProgress;       // A 0-1 value representing the zoom animation progress
   uniform float uTime;               // A constantly increasing value for time-based effects
@@ -53,19 +73,74 @@ export const fragmentShader = `
   #define LINE_WIDTH 0.005  // The thickness of the grid lines
   #define IMAGE_SIZE 0.6    // The percentage of the cell the image occupies
   #define TEXT_HEIGHT 0.08  // The percentage of the cell the text occupies
+  #define FILTER_FADE 0.75  // How far filtered-out cells fade towards the background
+  #define HIGHLIGHT_WIDTH 0.02 // The thickness of the frame around cells matching the search
+  #define FOCUS_WIDTH 0.012    // The thickness of the keyboard focus ring
 
   // --- HELPER FUNCTIONS ---
 
+  /**
+   * Looks up which project (texture index) a cell displays, or -1.0 for an empty cell.
+   * Also returns the block the cell belongs to: featured projects span several cells,
+   * \`blockOffset\` is the cell's position inside the block and \`blockSpan\` its size in cells.
+   * Must stay in sync with \`getLayoutCell\` in layout.ts.
+   */
+  float getLayoutCell(vec2 cellId, out vec2 blockOffset, out vec2 blockSpan) {
+      blockOffset = vec2(0.0);
+      blockSpan = vec2(1.0);
+      vec2 tileCell = floor(cellId) - uLayoutOrigin;
+      if (uLayoutRepeat) {
+          tileCell = mod(tileCell, uLayoutSize);
+      } else if (any(lessThan(tileCell, vec2(0.0))) || any(greaterThanEqual(tileCell, uLayoutSize))) {
+          return -1.0;
+      }
+      vec4 texel = floor(texelFetch(uLayoutTexture, ivec2(tileCell), 0) * 255.0 + 0.5);
+      // The index is stored as a 16-bit number (+1) across the red and green channels.
+      float index = texel.r + texel.g * 256.0 - 1.0;
+      // Blue and alpha pack the offset inside the block (low 4 bits) and the block size - 1 (high 4 bits).
+      blockOffset = mod(texel.ba, 16.0);
+      blockSpan = floor(texel.ba / 16.0) + 1.0;
+      // Guard against a layout that's briefly ahead of the texture atlases.
+      return index < uTextureCount ? index : -1.0;
+  }
+
+  /**
+   * Reads a project's texel from the per-project mask.
+   */
+  vec4 getProjectMask(float texIndex) {
+      float maskWidth = float(textureSize(uProjectMask, 0).x);
+      return texture(uProjectMask, vec2((texIndex + 0.5) / maskWidth, 0.5));
+  }
+
+  /**
+   * Reads how strongly a project is dimmed by the active filter (0 = not at all, 1 = fully).
+   */
+  float getFilterAmount(float texIndex) {
+      return getProjectMask(texIndex).r;
+  }
+
+  /**
+   * Desaturates a color and fades it towards the background for filtered-out projects.
+   */
+  vec3 applyFilter(vec3 color, float filterAmount) {
+      vec3 grayscale = vec3(dot(color, vec3(0.299, 0.587, 0.114)));
+      vec3 dimmed = mix(grayscale, uBackgroundColor.rgb, FILTER_FADE);
+      return mix(color, dimmed, filterAmount);
+  }
+
   /**
    * Calculates the color of the grid lines and base background.
+   * Lines are only drawn around the edges of a block, so merged cells read as one tile.
    */
-  vec3 drawGrid(vec3 color, vec2 cellUV, vec2 mouseWorldCoord, vec2 cellId) {
-      // Create a soft mask for the grid lines based on the cell's UV coordinates.
-      float gridMask = smoothstep(0.0, LINE_WIDTH, cellUV.x) * smoothstep(1.0, 1.0 - LINE_WIDTH, cellUV.x) *
-                       smoothstep(0.0, LINE_WIDTH, cellUV.y) * smoothstep(1.0, 1.0 - LINE_WIDTH, cellUV.y);
+  vec3 drawGrid(vec3 color, vec2 blockUV, vec2 blockSpan, vec2 mouseWorldCoord, vec2 blockId) {
+      // Create a soft mask for the grid lines based on the block's UV coordinates.
+      // The line width is divided by the span so lines stay equally thick on bigger blocks.
+      vec2 lineWidth = LINE_WIDTH / blockSpan;
+      float gridMask = smoothstep(0.0, lineWidth.x, blockUV.x) * smoothstep(1.0, 1.0 - lineWidth.x, blockUV.x) *
+                       smoothstep(0.0, lineWidth.y, blockUV.y) * smoothstep(1.0, 1.0 - lineWidth.y, blockUV.y);
 
-      // Calculate hover intensity based on distance from mouse to cell center.
-      float distToMouseHover = length(mouseWorldCoord - (cellId + 0.5) * uCellSize);
+      // Calculate hover intensity based on distance from mouse to block center.
+      float distToMouseHover = length(mouseWorldCoord - (blockId + blockSpan * 0.5) * uCellSize);
       float hoverRadius = uCellSize * 1.5;
       float hoverIntensity = pow(smoothstep(hoverRadius, 0.0, distToMouseHover), 2.0);
       bool isHovered = uHoverEnabled && hoverIntensity > 0.0 && uMousePos.x > 0.0;
@@ -80,12 +155,12 @@ export const fragmentShader = `
   }
 
   /**
-   * Calculates the color of the project image within a cell.
+   * Calculates the color of the project image within a block, stretched across all of its cells.
    */
-  vec3 drawImage(vec3 color, vec2 cellUV, vec2 cellId, float hoverIntensity, float effectIntensity) {
+  vec3 drawImage(vec3 color, vec2 blockUV, vec2 blockId, float texIndex, float hoverIntensity, float effectIntensity) {
       // Scale the image slightly on hover.
       float hoverScale = 1.0 + hoverIntensity * 0.05;
-      vec2 imageUV = (cellUV - (1.0 - IMAGE_SIZE * hoverScale) * 0.5) / (IMAGE_SIZE * hoverScale);
+      vec2 imageUV = (blockUV - (1.0 - IMAGE_SIZE * hoverScale) * 0.5) / (IMAGE_SIZE * hoverScale);
       
       // Create an alpha mask to ensure we only draw inside the image bounds.
       float imageAlpha = smoothstep(0.0, 0.01, imageUV.x) * smoothstep(1.0, 0.99, imageUV.x) *
@@ -93,14 +168,13 @@ export const fragmentShader = `
 
       if (imageAlpha > 0.0) {
         vec3 imageColor;
-        // Check if this cell is the one with the active video.
-        bool isHoveredCell = uIsVideoActive && cellId.x == uHoveredCellId.x && cellId.y == uHoveredCellId.y;
+        // Check if this block is the one with the active video.
+        bool isHoveredCell = uIsVideoActive && blockId.x == uHoveredCellId.x && blockId.y == uHoveredCellId.y;
 
         if (isHoveredCell) {
             imageColor = texture(uActiveVideo, imageUV).rgb;
         } else {
-            // Calculate which texture to sample from the atlas.
-            float texIndex = mod(floor(cellId.x) + floor(cellId.y) * 3.0, uTextureCount);
+            // Calculate where this cell's texture sits in the atlas.
             float atlasSize = ceil(sqrt(uTextureCount));
             vec2 atlasUV = (vec2(mod(texIndex, atlasSize), floor(texIndex / atlasSize)) + imageUV) / atlasSize;
             
@@ -111,6 +185,13 @@ export const fragmentShader = `
             float b = texture(uImageAtlas, atlasUV - vec2(caOffset, 0.0)).b;
             imageColor = vec3(r, g, b);
         }
+        // Crossfade to the current gallery item if this is the gallery's block.
+        bool isGalleryCell = uGalleryActive && blockId.x == uGalleryCellId.x && blockId.y == uGalleryCellId.y;
+        if (isGalleryCell) {
+            vec3 fromColor = uGalleryFromBase ? imageColor : texture(uGalleryPrevTexture, imageUV).rgb;
+            imageColor = mix(fromColor, texture(uGalleryTexture, imageUV).rgb, uGalleryMix);
+        }
+        imageColor = applyFilter(imageColor, getFilterAmount(texIndex));
         color = mix(color, imageColor, imageAlpha);
       }
       return color;
@@ -118,26 +199,63 @@ export const fragmentShader = `
   
   /**
    * Calculates the color for the project text (title and year).
+   * \`blockCellUV\` is measured in cells from the block's bottom-left corner, so the
+   * text keeps its size and sits in the bottom-left cell of a featured block.
    */
-  vec3 drawText(vec3 color, vec2 cellUV, vec2 cellId, float hoverIntensity) {
+  vec3 drawText(vec3 color, vec2 blockCellUV, float texIndex, float hoverIntensity) {
       // Check if the current pixel is within the text area.
-      if (cellUV.x > 0.05 && cellUV.x < 0.95 && cellUV.y > 0.05 && cellUV.y < 0.05 + TEXT_HEIGHT) {
+      if (blockCellUV.x > 0.05 && blockCellUV.x < 0.95 && blockCellUV.y > 0.05 && blockCellUV.y < 0.05 + TEXT_HEIGHT) {
         // Normalize UVs for the text area.
-        vec2 textUV = vec2((cellUV.x - 0.05) / 0.9, (cellUV.y - 0.05) / TEXT_HEIGHT);
+        vec2 textUV = vec2((blockCellUV.x - 0.05) / 0.9, (blockCellUV.y - 0.05) / TEXT_HEIGHT);
         
-        // Calculate which text texture to sample from the atlas.
-        float texIndex = mod(floor(cellId.x) + floor(cellId.y) * 3.0, uTextureCount);
+        // Calculate where this cell's text texture sits in the atlas.
         float atlasSize = ceil(sqrt(uTextureCount));
         vec2 atlasUV = (vec2(mod(texIndex, atlasSize), floor(texIndex / atlasSize)) + textUV) / atlasSize;
         vec4 textColor = texture(uTextAtlas, atlasUV);
+        // Fade in the text of a new theme.
+        if (uTextMix < 1.0) {
+            textColor = mix(texture(uPrevTextAtlas, atlasUV), textColor, uTextMix);
+        }
         
-        // Make text brighter on hover and mix it with the background.
-        vec3 finalTextColor = mix(textColor.rgb, vec3(1.0), hoverIntensity * 0.5);
+        // Tint text with the accent color on hover (unless filtered out) and mix it with the background.
+        float filterAmount = getFilterAmount(texIndex);
+        vec3 finalTextColor = mix(textColor.rgb, uAccentColor.rgb, hoverIntensity * 0.5 * (1.0 - filterAmount));
+        finalTextColor = applyFilter(finalTextColor, filterAmount);
         color = mix(color, finalTextColor, textColor.a);
       }
       return color;
   }
 
+  /**
+   * Creates a mask for a frame along the inside edges of a block (1 on the frame, 0 inside).
+   * The width is divided by the span so frames stay equally thick on bigger blocks, like the grid lines.
+   */
+  float getFrameMask(vec2 blockUV, vec2 blockSpan, float width) {
+      vec2 frameWidth = width / blockSpan;
+      vec2 edgeDistance = min(blockUV, 1.0 - blockUV);
+      float inside = smoothstep(frameWidth.x, frameWidth.x * 1.5, edgeDistance.x) *
+                     smoothstep(frameWidth.y, frameWidth.y * 1.5, edgeDistance.y);
+      return 1.0 - inside;
+  }
+
+  /**
+   * Draws a gently pulsing frame around blocks whose project matches the search query.
+   */
+  vec3 drawHighlight(vec3 color, vec2 blockUV, vec2 blockSpan, float texIndex) {
+      float highlight = getProjectMask(texIndex).g;
+      if (highlight <= 0.0) return color;
+      float pulse = 0.75 + 0.25 * sin(uTime * 4.0);
+      return mix(color, uAccentColor.rgb, getFrameMask(blockUV, blockSpan, HIGHLIGHT_WIDTH) * highlight * pulse);
+  }
+
+  /**
+   * Draws a solid ring around the block with keyboard focus.
+   */
+  vec3 drawFocus(vec3 color, vec2 blockUV, vec2 blockSpan, vec2 blockId) {
+      if (!uFocusVisible || blockId.x != uFocusedCellId.x || blockId.y != uFocusedCellId.y) return color;
+      return mix(color, uAccentColor.rgb, getFrameMask(blockUV, blockSpan, FOCUS_WIDTH));
+  }
+
   // --- MAIN SCENE FUNCTION ---
   vec4 getSceneColor(vec2 uv, float effectIntensity) {
       // 1. Calculate world coordinates from screen UVs, applying barrel distortion.
@@ -168,42 +286,85 @@ export const fragmentShader = `
       vec2 cellId = floor(cellPos);
       vec2 cellUV = fract(cellPos);
 
+      // Look up the cell's project and the block it belongs to. Empty cells
+      // (e.g. outside of a finite layout) are left as plain background.
+      vec2 blockOffset, blockSpan;
+      float texIndex = getLayoutCell(cellId, blockOffset, blockSpan);
+      if (texIndex < 0.0) {
+        return vec4(uBackgroundColor.rgb, 1.0);
+      }
+      vec2 blockId = cellId - blockOffset;       // The block's bottom-left cell, used as its ID
+      vec2 blockCellUV = blockOffset + cellUV;   // The position inside the block, in cells
+      vec2 blockUV = blockCellUV / blockSpan;    // The position inside the block, 0-1
+
       // 5. Calculate hover intensity for effects.
-      float distToMouseHover = length(mouseWorldCoord - (cellId + 0.5) * uCellSize);
+      float distToMouseHover = length(mouseWorldCoord - (blockId + blockSpan * 0.5) * uCellSize);
       float hoverIntensity = pow(smoothstep(uCellSize * 1.5, 0.0, distToMouseHover), 2.0);
       
       // 6. Layer the final color by drawing components on top of each other.
       vec3 color = uBackgroundColor.rgb;
-      color = drawGrid(color, cellUV, mouseWorldCoord, cellId); // Start with grid and hover
-      color = drawImage(color, cellUV, cellId, hoverIntensity, effectIntensity); // Add the image
-      color = drawText(color, cellUV, cellId, hoverIntensity); // Add the text
-      
-      // 7. Apply a vignette effect by fading to transparent at the edges.
-      return vec4(color * (1.0 - smoothstep(1.2, 1.8, radius)), 1.0);
+      color = drawGrid(color, blockUV, blockSpan, mouseWorldCoord, blockId); // Start with grid and hover
+      color = drawImage(color, blockUV, blockId, texIndex, hoverIntensity, effectIntensity); // Add the image
+      color = drawText(color, blockCellUV, texIndex, hoverIntensity); // Add the text
+      color = drawHighlight(color, blockUV, blockSpan, texIndex); // Frame search matches
+      color = drawFocus(color, blockUV, blockSpan, blockId); // Show the keyboard focus
+      return vec4(color, 1.0);
   }
 
   // --- MAIN ENTRY POINT ---
   void main() {
     // The main function is the entry point for the shader program.
     // It calculates the final color for the current pixel (gl_FragColor).
+    // Screen-wide effects like the motion blur and the vignette are applied
+    // afterwards, by the post passes (see postprocessing.ts).
     
-    // Calculate an intensity value for zoom-based effects (like motion blur).
+    // Calculate an intensity value for zoom-based effects (like chromatic aberration).
     float effectIntensity = sin(uZoomProgress * PI);
-    vec4 finalColor;
-
-    // Apply a radial motion blur effect during zoom transitions (desktop only).
-    if (effectIntensity > 0.01 && !uOptimizeMobile) {
-      vec2 blurVector = normalize(vUv - 0.5) * effectIntensity * 0.03;
-      finalColor = vec4(0.0);
-      const int SAMPLES = 6;
-      for (int i = 0; i < SAMPLES; i++) {
-          finalColor += getSceneColor(vUv - blurVector * (float(i) / float(SAMPLES - 1)), effectIntensity);
-      }
-      finalColor /= float(SAMPLES);
-    } else {
-      finalColor = getSceneColor(vUv, 0.0);
+    gl_FragColor = getSceneColor(vUv, effectIntensity);
+  }
+`;
+
+/**
+ * The uniforms every post pass can read, on top of its own.
+ */
+export const postUniformsHeader = `
+  uniform sampler2D tDiffuse;  // The output of the previous pass (or of the scene, for the first pass)
+  uniform vec2 uResolution;    // The size of tDiffuse in pixels
+  uniform float uTime;         // The same time as in the scene, in seconds
+  uniform float uZoomProgress; // A 0-1 value representing the zoom animation progress
+  uniform bool uOptimizeMobile; // Flag to skip performance-intensive effects on mobile
+  in vec2 vUv;
+`;
+
+/**
+ * A radial motion blur while zooming in or out of a project (desktop only).
+ */
+export const motionBlurShader = `
+  #define PI 3.1415926535
+  #define SAMPLES 6
+
+  void main() {
+    float effectIntensity = sin(uZoomProgress * PI);
+    if (effectIntensity <= 0.01 || uOptimizeMobile) {
+      gl_FragColor = texture(tDiffuse, vUv);
+      return;
+    }
+    vec2 blurVector = normalize(vUv - 0.5) * effectIntensity * 0.03;
+    vec4 color = vec4(0.0);
+    for (int i = 0; i < SAMPLES; i++) {
+        color += texture(tDiffuse, vUv - blurVector * (float(i) / float(SAMPLES - 1)));
     }
+    gl_FragColor = color / float(SAMPLES);
+  }
+`;
 
-    gl_FragColor = finalColor;
+/**
+ * Darkens the corners of the screen.
+ */
+export const vignetteShader = `
+  void main() {
+    vec4 color = texture(tDiffuse, vUv);
+    float radius = length((vUv - 0.5) * 2.0);
+    gl_FragColor = vec4(color.rgb * (1.0 - smoothstep(1.2, 1.8, radius)), color.a);
   }
-`;
\ No newline at end of file
+`;
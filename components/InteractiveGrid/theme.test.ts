@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { resolveGridTheme, GridThemes } from "./theme";
+
+describe("resolveGridTheme", () => {
+    it("returns a preset by its name", () => {
+        expect(resolveGridTheme("light", true)).toBe(GridThemes.light);
+        expect(resolveGridTheme("highContrast", false)).toBe(GridThemes.highContrast);
+    });
+
+    it("follows the system setting for \"auto\"", () => {
+        expect(resolveGridTheme("auto", true)).toBe(GridThemes.dark);
+        expect(resolveGridTheme("auto", false)).toBe(GridThemes.light);
+    });
+
+    it("merges a partial theme over the dark preset", () => {
+        expect(resolveGridTheme({ accent: "#ff0066" }, false)).toEqual({ ...GridThemes.dark, accent: "#ff0066" });
+    });
+
+    it("picks from a light/dark pair by the system setting", () => {
+        const setting = { light: "highContrast" as const, dark: { link: "#00ffcc" } };
+        expect(resolveGridTheme(setting, false)).toBe(GridThemes.highContrast);
+        expect(resolveGridTheme(setting, true)).toEqual({ ...GridThemes.dark, link: "#00ffcc" });
+    });
+
+    it("doesn't change the presets", () => {
+        const before = JSON.stringify(GridThemes);
+        resolveGridTheme({ background: "#123456" }, true);
+        expect(JSON.stringify(GridThemes)).toBe(before);
+    });
+});
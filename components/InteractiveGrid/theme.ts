@@ -0,0 +1,79 @@
+/**
+ * @file The color themes of the grid. A theme colors both the WebGL grid and the
+ * HTML around it (search, details panel, gallery controls, minimap and the "View Project" link).
+ * The `theme` prop takes a preset name, a theme object (merged over the dark preset),
+ * or a light/dark pair. "auto" is the pair of the light and dark presets, and follows
+ * the system's `prefers-color-scheme` setting as it changes (see useGridTheme).
+ * Colors are CSS color strings, e.g. "#0a0a0a" or "rgba(255, 255, 255, 0.05)".
+ */
+
+export interface GridTheme {
+    background: string; // The grid's base background
+    border: string;     // The lines between the cells, and the borders of the panels
+    hover: string;      // Mixed into the cells around the pointer
+    text: string;       // The project titles and years on the grid, and the secondary text of the panels
+    accent: string;     // Search highlights, the keyboard focus ring, hovered titles and the text of the panels
+    overlay: string;    // The background of the panels
+    link: string;       // The "View Project" link
+}
+
+export type GridThemeName = "dark" | "light" | "highContrast";
+
+/**
+ * A theme to use, or a pair of themes to pick from by the system's light/dark setting.
+ */
+export type GridThemeSetting =
+    | GridThemeName
+    | "auto"
+    | Partial<GridTheme>
+    | { light: GridThemeName | Partial<GridTheme>; dark: GridThemeName | Partial<GridTheme> };
+
+export const GridThemes: Record<GridThemeName, GridTheme> = {
+    dark: {
+        background: "#0a0a0a",
+        border: "rgba(40, 40, 40, 0.7)",
+        hover: "rgba(255, 255, 255, 0.05)",
+        text: "#808080",
+        accent: "#ffffff",
+        overlay: "rgba(0, 0, 0, 0.4)",
+        link: "#ffffff",
+    },
+    light: {
+        background: "#f2f2ef",
+        border: "rgba(190, 190, 185, 0.8)",
+        hover: "rgba(0, 0, 0, 0.04)",
+        text: "#6b6b6b",
+        accent: "#111111",
+        overlay: "rgba(255, 255, 255, 0.6)",
+        link: "#111111",
+    },
+    highContrast: {
+        background: "#000000",
+        border: "rgba(255, 255, 255, 1)",
+        hover: "rgba(255, 255, 0, 0.2)",
+        text: "#ffffff",
+        accent: "#ffff00",
+        overlay: "rgba(0, 0, 0, 0.9)",
+        link: "#ffff00",
+    },
+};
+
+/**
+ * Turns a preset name or a partial theme into a complete theme.
+ */
+const toTheme = (theme: GridThemeName | Partial<GridTheme>): GridTheme => {
+    return typeof theme === "string" ? GridThemes[theme] : { ...GridThemes.dark, ...theme };
+};
+
+/**
+ * Picks the theme to show for a `theme` prop.
+ * @param setting - The `theme` prop.
+ * @param prefersDark - Whether the system is set to a dark color scheme. Only used by "auto" and light/dark pairs.
+ */
+export const resolveGridTheme = (setting: GridThemeSetting, prefersDark: boolean): GridTheme => {
+    if (setting === "auto") return prefersDark ? GridThemes.dark : GridThemes.light;
+    if (typeof setting === "object" && "light" in setting && "dark" in setting) {
+        return toTheme(prefersDark ? setting.dark : setting.light);
+    }
+    return toTheme(setting as GridThemeName | Partial<GridTheme>);
+};
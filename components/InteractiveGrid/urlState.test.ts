@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { slugify, readUrlState, writeUrlState } from "./urlState";
+
+// A stand-in for the browser's location and history, starting at the given URL.
+const stubWindow = (url: string) => {
+    const location = { pathname: "", search: "", hash: "" };
+    const setUrl = (next: string) => {
+        const { pathname, search, hash } = new URL(next, "https://example.com");
+        Object.assign(location, { pathname, search, hash });
+    };
+    setUrl(url);
+    const history = { state: null, replaceState: vi.fn((_state: any, _title: string, next: string) => setUrl(next)) };
+    vi.stubGlobal("window", { location, history });
+    return { location, history };
+};
+
+describe("slugify", () => {
+    it("lowercases titles and joins their words with dashes", () => {
+        expect(slugify("Kinetic UI")).toBe("kinetic-ui");
+        expect(slugify("  Motion -- Study #2! ")).toBe("motion-study-2");
+    });
+
+    it("drops accents", () => {
+        expect(slugify("Café Rénové")).toBe("cafe-renove");
+    });
+});
+
+describe("readUrlState", () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it("reads the state from the hash", () => {
+        stubWindow("/work#project=kinetic-ui&cell=2,-1&at=0.375,-0.5");
+        expect(readUrlState("hash")).toEqual({ slug: "kinetic-ui", cell: { x: 2, y: -1 }, offset: { x: 0.375, y: -0.5 } });
+    });
+
+    it("reads the state from the query string", () => {
+        stubWindow("/work?project=kinetic-ui#section");
+        expect(readUrlState("query")).toEqual({ slug: "kinetic-ui", cell: undefined, offset: undefined });
+    });
+
+    it("ignores malformed values", () => {
+        stubWindow("/#project=&cell=2&at=a,b");
+        expect(readUrlState("hash")).toEqual({ slug: undefined, cell: undefined, offset: undefined });
+    });
+});
+
+describe("writeUrlState", () => {
+    let browser: ReturnType<typeof stubWindow>;
+
+    beforeEach(() => {
+        browser = stubWindow("/work?ref=home#tab=1");
+    });
+    afterEach(() => vi.unstubAllGlobals());
+
+    it("writes the state into the hash, keeping the other parameters", () => {
+        writeUrlState("hash", { slug: "kinetic-ui", cell: { x: 2, y: -1 }, offset: { x: 0.1234, y: -2 } });
+        expect(browser.location.search).toBe("?ref=home");
+        expect(new URLSearchParams(browser.location.hash.slice(1)).toString()).toBe("tab=1&project=kinetic-ui&cell=2%2C-1&at=0.123%2C-2.000");
+    });
+
+    it("writes the state into the query string, keeping the hash", () => {
+        writeUrlState("query", { slug: "kinetic-ui" });
+        expect(browser.location.search).toBe("?ref=home&project=kinetic-ui");
+        expect(browser.location.hash).toBe("#tab=1");
+    });
+
+    it("removes missing values, and round-trips through readUrlState", () => {
+        writeUrlState("hash", { slug: "kinetic-ui", cell: { x: 0, y: 0 } });
+        writeUrlState("hash", { offset: { x: 1, y: 2 } });
+        expect(readUrlState("hash")).toEqual({ slug: undefined, cell: undefined, offset: { x: 1, y: 2 } });
+    });
+
+    it("replaces the history entry, and only when the URL changes", () => {
+        writeUrlState("hash", {});
+        expect(browser.history.replaceState).not.toHaveBeenCalled();
+        writeUrlState("hash", { slug: "kinetic-ui" });
+        writeUrlState("hash", { slug: "kinetic-ui" });
+        expect(browser.history.replaceState).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * @file Reads and writes the grid's state in the page URL, so a view can be shared as a link.
+ * The state is stored as URL parameters, either in the hash (`#project=motion-study&cell=0,-1&at=0.375,-0.375`)
+ * or in the query string. Other parameters already in the URL are left alone.
+ * - `project`: The slug of the zoomed project's title.
+ * - `cell`: The ID of the zoomed block, to pick the right copy of a repeating project.
+ * - `at`: The camera position (in world units) to return to when zooming out.
+ */
+
+export type UrlSyncMode = "hash" | "query";
+
+export interface UrlState {
+    slug?: string;
+    cell?: { x: number; y: number };
+    offset?: { x: number; y: number };
+}
+
+/**
+ * Turns a project title into a URL-friendly slug, e.g. "Kinetic UI" -> "kinetic-ui".
+ */
+export const slugify = (title: string) => {
+    return title
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+};
+
+/**
+ * Parses a pair of numbers like "0,-1".
+ */
+const parsePair = (value: string | null) => {
+    if (!value) return undefined;
+    const [x, y] = value.split(",").map(Number);
+    return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
+};
+
+const getParams = (mode: UrlSyncMode) => {
+    return new URLSearchParams(mode === "hash" ? window.location.hash.slice(1) : window.location.search);
+};
+
+/**
+ * Builds the URL for a new set of parameters, keeping the rest of the current URL.
+ */
+const buildUrl = (mode: UrlSyncMode, params: URLSearchParams) => {
+    const { pathname, search, hash } = window.location;
+    const serialized = params.toString();
+    if (mode === "hash") return `${pathname}${search}${serialized ? `#${serialized}` : ""}`;
+    return `${pathname}${serialized ? `?${serialized}` : ""}${hash}`;
+};
+
+/**
+ * Reads the grid's state from the current URL.
+ */
+export const readUrlState = (mode: UrlSyncMode): UrlState => {
+    const params = getParams(mode);
+    return {
+        slug: params.get("project") || undefined,
+        cell: parsePair(params.get("cell")),
+        offset: parsePair(params.get("at")),
+    };
+};
+
+/**
+ * Writes the grid's state into the URL. Missing values are removed from the URL.
+ * The current history entry is replaced, so panning around doesn't fill up the Back button.
+ */
+export const writeUrlState = (mode: UrlSyncMode, state: UrlState) => {
+    const params = getParams(mode);
+    const setParam = (key: string, value: string | undefined) => {
+        if (value) params.set(key, value);
+        else params.delete(key);
+    };
+    setParam("project", state.slug);
+    setParam("cell", state.cell && `${state.cell.x},${state.cell.y}`);
+    setParam("at", state.offset && `${state.offset.x.toFixed(3)},${state.offset.y.toFixed(3)}`);
+
+    const url = buildUrl(mode, params);
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+        window.history.replaceState(window.history.state, "", url);
+    }
+};
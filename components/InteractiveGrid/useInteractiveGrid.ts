@@ -1,14 +1,29 @@
-import { useRef } from "react";
+import React, { useRef, useCallback } from "react";
 import { useThreeSetup } from "./hooks/useThreeSetup";
 import { useUniforms } from "./hooks/useUniforms";
 import { useTextureManager } from "./hooks/useTextureManager";
+import { useProjectFilter } from "./hooks/useProjectFilter";
+import { useLayout } from "./hooks/useLayout";
 import { useInteraction } from "./hooks/useInteraction";
+import { useGallery } from "./hooks/useGallery";
+import { useSearch } from "./hooks/useSearch";
+import { useGridController } from "./hooks/useGridController";
+import { useUrlSync } from "./hooks/useUrlSync";
+import { useKeyboardNavigation } from "./hooks/useKeyboardNavigation";
 import { useEventHandlers } from "./hooks/useEventHandlers";
 import { useAnimationLoop } from "./hooks/useAnimationLoop";
+import { usePostProcessing } from "./hooks/usePostProcessing";
+import { useMinimap } from "./hooks/useMinimap";
+import { useAutopilot } from "./hooks/useAutopilot";
+import { useGridEvents } from "./hooks/useGridEvents";
 import { useVideoManager } from "./hooks/useVideoManager";
 import { useResizeObserver } from "./hooks/useResizeObserver";
-import { InteractiveGridProps, ThreeContext } from "./hooks/types";
+import { useProjectSource } from "./hooks/useProjectSource";
+import { useProjectValidation } from "./hooks/useProjectValidation";
+import { useGridTheme } from "./hooks/useGridTheme";
+import { InteractiveGridProps, InteractiveGridHandle, ThreeContext } from "./hooks/types";
 import { AnimationConfig } from "./config";
+import { GridTheme } from "./theme";
 
 /**
  * @file This is the main orchestrator hook for the interactive grid.
@@ -17,58 +32,155 @@ import { AnimationConfig } from "./config";
  * `threeContext` ref object and ensure data flows correctly between
  * the other hooks.
  */
-export function useInteractiveGrid(props: InteractiveGridProps) {
+export function useInteractiveGrid(gridProps: InteractiveGridProps, ref?: React.Ref<InteractiveGridHandle>) {
     const mountRef = useRef<HTMLDivElement>(null);
     const linkRef = useRef<HTMLAnchorElement>(null);
 
+    // This grid's animation settings. Only used for the initial state below; useAnimationLoop keeps them up to date.
+    const initialConfig = { ...AnimationConfig, ...gridProps.animation };
+
     // This ref holds the mutable Three.js state. It's used to store
     // objects and values that can change frequently without causing re-renders.
     const threeContext = useRef<ThreeContext>({
         ...AnimationConfig.initialState, // Start with initial values from the config
+        zoom: initialConfig.defaultZoomLevel, targetZoom: initialConfig.defaultZoomLevel, lastZoom: initialConfig.defaultZoomLevel,
+        config: initialConfig, emitEvent: () => {},
         THREE: null, scene: null, camera: null, renderer: null, plane: null,
+        renderTargets: [], postScene: null, postQuad: null, postPasses: [],
         videoRef: undefined, videoTextureRef: null, previousMouse: null, 
-        clickStart: null, offset: null, targetOffset: null, offsetVelocity: null, 
+        clickStart: null, offset: null, targetOffset: null, offsetVelocity: null, panVelocity: null, panSamples: [], snap: null,
         mousePos: null, targetMousePos: null, lastOffset: null,
+        projectMask: null, targetProjectMask: null,
+        layout: null, gallery: null, settleCallbacks: [], zoomRequest: null, zoomGesture: null,
     });
     
+    // Loads projects from a remote source (if any), falling back to the static list while it loads.
+    const { projects: sourceProjects, status: sourceStatus } = useProjectSource(gridProps.source, gridProps.projects);
+    // Normalizes the project data and leaves out projects that can't be displayed.
+    // The other hooks see the result as the `projects` prop. The indices the grid reports
+    // are translated back through `sourceIndices`, so they match the list the grid was given.
+    const { projects, sourceIndices } = useProjectValidation(sourceProjects, gridProps.onDiagnostics);
+    const props = { ...gridProps, projects };
+
+    // Picks the colors from the theme (following the system's light/dark setting if asked to).
+    // The single color props still win over the theme.
+    const preferredTheme = useGridTheme(props.theme);
+    const theme: GridTheme = {
+        ...preferredTheme,
+        background: props.backgroundColor ?? preferredTheme.background,
+        border: props.borderColor ?? preferredTheme.border,
+        hover: props.hoverColor ?? preferredTheme.hover,
+        text: props.textColor ?? preferredTheme.text,
+    };
+
+    // Fires the event callbacks (onZoomStart, onNavigate, ...) that the other hooks report through the context
+    useGridEvents(threeContext, props, sourceIndices);
+
     // Core Three.js scene setup
     const isThreeInitialized = useThreeSetup(mountRef, threeContext);
 
     // Manages the video element and playback logic
-    const { setVideoState } = useVideoManager(mountRef, threeContext, isThreeInitialized, props.projects);
+    const { setVideoState } = useVideoManager(mountRef, threeContext, isThreeInitialized, props.projects, props.activeFilter);
 
     // Keeps the renderer and uniforms updated on resize
     useResizeObserver(mountRef, threeContext, isThreeInitialized);
 
-    // Manages syncing props to shader uniforms
-    useUniforms(threeContext, isThreeInitialized, props);
+    // Manages syncing props and theme colors to shader uniforms
+    useUniforms(threeContext, isThreeInitialized, props, theme);
 
     // Manages loading image/text data into textures
-    useTextureManager(threeContext, isThreeInitialized, props);
+    useTextureManager(threeContext, isThreeInitialized, props, theme.text);
+
+    // Bakes the cell-to-project layout shared by the shader and hit-testing
+    useLayout(threeContext, isThreeInitialized, props);
+
+    // Dims projects that don't match the active filter
+    useProjectFilter(threeContext, isThreeInitialized, props);
+
+    // Loads and crossfades the zoomed project's gallery items
+    const gallery = useGallery(threeContext, isThreeInitialized, setVideoState);
 
     // Handles user interactions like zooming and navigating
-    const { zoomedProject, isZoomed, handleInteraction } = useInteraction(
+    const {
+        zoomedProject,
+        isZoomed,
+        handleInteraction,
+        navigateToCell,
+        unzoom,
+        openProject,
+        tapCell,
+        stepZoomed,
+        findNextCell,
+        isCellSelectable,
+        handleZoomGesture,
+        handleZoomGestureEnd,
+        handlePanEnd,
+    } = useInteraction(
         threeContext,
         setVideoState,
         props,
-        linkRef
+        linkRef,
+        gallery,
+        isThreeInitialized,
+        sourceIndices
+    );
+
+    // Finds projects by title or tag, highlights them and flies to the chosen one
+    const search = useSearch(threeContext, isThreeInitialized, props, navigateToCell, mountRef);
+
+    // Exposes the imperative controller API (flyTo, zoomTo, ...) through the component's ref
+    useGridController(ref, threeContext, navigateToCell, unzoom, isCellSelectable, sourceProjects.length, sourceIndices);
+
+    // Restores a shared view from the URL, once the project source (if any) has loaded
+    useUrlSync(threeContext, isThreeInitialized, props, navigateToCell, sourceStatus === "loading");
+
+    // Tours the grid on its own while nobody is using it
+    useAutopilot(threeContext, isThreeInitialized, props, navigateToCell, unzoom, isCellSelectable);
+
+    // Moves a focus ring with the arrow keys and routes other keys to the same interactions
+    const { focusedProject, keyboardHandlers } = useKeyboardNavigation(
+        threeContext,
+        props.projects,
+        setVideoState,
+        { tapCell, stepZoomed, findNextCell, unzoom, handleZoomGesture, handleZoomGestureEnd }
     );
 
-    // Sets up DOM event handlers for pointer and wheel events
+    // Sets up DOM event handlers for pointer, pinch and wheel events
     const { cursor, eventHandlers } = useEventHandlers(
         threeContext,
-        handleInteraction
+        handleInteraction,
+        handleZoomGesture,
+        handleZoomGestureEnd,
+        mountRef,
+        handlePanEnd
     );
     
+    // Compiles the post-processing passes drawn over the grid
+    usePostProcessing(threeContext, isThreeInitialized, props.postPasses);
+
     // Runs the main animation loop
-    useAnimationLoop(threeContext, isThreeInitialized, setVideoState);
+    useAnimationLoop(threeContext, isThreeInitialized, setVideoState, props.snapToCell, props.animation);
+
+    // Draws the minimap and moves the camera to where it's clicked
+    const minimap = useMinimap(threeContext, isThreeInitialized, !!props.showMinimap, theme.accent);
+
+    // Opens the zoomed project through the "View Project" link, as set by `openMode`
+    const handleLinkClick = useCallback((event: React.MouseEvent<HTMLAnchorElement>) => {
+        openProject("link", event.nativeEvent);
+    }, [openProject]);
 
     return {
         mountRef,
         linkRef,
+        handleLinkClick,
         zoomedProject,
         isZoomed: isZoomed,
+        gallery,
+        search,
+        minimap,
+        theme,
+        focusedProject,
         cursor,
-        eventHandlers,
+        eventHandlers: { ...eventHandlers, ...keyboardHandlers },
     };
 }
\ No newline at end of file
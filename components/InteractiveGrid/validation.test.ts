@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { validateProjects } from "./validation";
+
+const valid = { title: "Kinetic UI", image: "/kinetic.jpg", href: "https://example.com/kinetic" };
+
+// Validates a single project and returns it (or null) with its diagnostics.
+const validateOne = (raw: unknown) => {
+    const { projects, diagnostics } = validateProjects([raw]);
+    return { project: projects[0] ?? null, diagnostics };
+};
+
+describe("validateProjects", () => {
+    it("passes a valid project through unchanged", () => {
+        expect(validateProjects([valid])).toEqual({ projects: [valid], sourceIndices: [0], diagnostics: [] });
+    });
+
+    it("reports a value that isn't a list", () => {
+        expect(validateProjects({ items: [] }).diagnostics).toEqual([
+            { index: -1, field: "projects", severity: "error", message: "Expected a list of projects." },
+        ]);
+        expect(validateProjects(undefined)).toEqual({ projects: [], sourceIndices: [], diagnostics: [] });
+    });
+
+    describe("left out", () => {
+        it("leaves out entries that aren't objects", () => {
+            const { project, diagnostics } = validateOne("Kinetic UI");
+            expect(project).toBeNull();
+            expect(diagnostics).toMatchObject([{ index: 0, field: "project", severity: "error" }]);
+        });
+
+        it("leaves out projects without a title or an image", () => {
+            const { projects, diagnostics } = validateProjects([{ image: "/a.jpg" }, { title: "Untitled", image: "  " }]);
+            expect(projects).toEqual([]);
+            expect(diagnostics).toMatchObject([
+                { index: 0, field: "title", severity: "error" },
+                { index: 1, title: "Untitled", field: "image", severity: "error" },
+            ]);
+        });
+
+        it("reports every missing field of a project", () => {
+            expect(validateOne({}).diagnostics.map(d => d.field)).toEqual(["title", "image"]);
+        });
+
+        it("leaves out images with an unsafe protocol, but allows image data URLs", () => {
+            expect(validateOne({ ...valid, image: "javascript:alert(1)" }).project).toBeNull();
+            expect(validateOne({ ...valid, image: "data:text/html,hi" }).project).toBeNull();
+            expect(validateOne({ ...valid, image: "data:image/png;base64,AAAA" }).project).not.toBeNull();
+        });
+
+        it("maps the remaining projects to their original positions", () => {
+            const { projects, sourceIndices } = validateProjects([valid, {}, { ...valid, title: "Type Specimen" }]);
+            expect(projects.map(p => p.title)).toEqual(["Kinetic UI", "Type Specimen"]);
+            expect(sourceIndices).toEqual([0, 2]);
+        });
+    });
+
+    describe("normalized", () => {
+        it("trims strings and turns a numeric title into a string", () => {
+            const { project, diagnostics } = validateOne({ ...valid, title: 2024, image: " /a.jpg ", category: " Motion " });
+            expect(project).toMatchObject({ title: "2024", image: "/a.jpg", category: "Motion" });
+            expect(diagnostics).toEqual([]);
+        });
+
+        it("parses a year given as a string", () => {
+            expect(validateOne({ ...valid, year: " 2024 " }).project?.year).toBe(2024);
+        });
+
+        it("splits tags and tools given as comma-separated strings", () => {
+            const { project } = validateOne({ ...valid, tags: "WebGL, React,", tools: "Figma" });
+            expect(project?.tags).toEqual(["WebGL", "React"]);
+            expect(project?.tools).toEqual(["Figma"]);
+        });
+
+        it("guesses the type of media given as plain URLs", () => {
+            const { project } = validateOne({ ...valid, media: ["/still.jpg", "/clip.mp4?v=2", { type: "image", src: "/poster.mp4" }] });
+            expect(project?.media).toEqual([
+                { type: "image", src: "/still.jpg" },
+                { type: "video", src: "/clip.mp4?v=2" },
+                { type: "image", src: "/poster.mp4" },
+            ]);
+        });
+
+        it("parses a span given as strings", () => {
+            expect(validateOne({ ...valid, span: { columns: "2" } }).project?.span).toEqual({ columns: 2, rows: 1 });
+        });
+    });
+
+    describe("warnings", () => {
+        it("removes a year that isn't a whole number", () => {
+            const { project, diagnostics } = validateOne({ ...valid, year: "soon" });
+            expect(project).not.toHaveProperty("year");
+            expect(diagnostics).toMatchObject([{ index: 0, title: "Kinetic UI", field: "year", severity: "warning" }]);
+        });
+
+        it("keeps a project without a usable link, with an empty href", () => {
+            expect(validateOne({ ...valid, href: undefined })).toMatchObject({
+                project: { href: "" },
+                diagnostics: [{ field: "href", severity: "warning" }],
+            });
+            expect(validateOne({ ...valid, href: "javascript:alert(1)" })).toMatchObject({
+                project: { href: "" },
+                diagnostics: [{ field: "href", severity: "warning" }],
+            });
+        });
+
+        it("removes an unsafe video", () => {
+            const { project, diagnostics } = validateOne({ ...valid, video: "data:video/mp4;base64,AAAA" });
+            expect(project).not.toHaveProperty("video");
+            expect(diagnostics).toMatchObject([{ field: "video", severity: "warning" }]);
+        });
+
+        it("removes empty text fields", () => {
+            const { project, diagnostics } = validateOne({ ...valid, description: "", client: 42 });
+            expect(project).not.toHaveProperty("description");
+            expect(project).not.toHaveProperty("client");
+            expect(diagnostics.map(d => d.field)).toEqual(["description", "client"]);
+        });
+
+        it("removes entries of tags that aren't strings, and tags that aren't a list", () => {
+            const { project, diagnostics } = validateOne({ ...valid, tags: ["WebGL", 3, ""], tools: { figma: true } });
+            expect(project?.tags).toEqual(["WebGL"]);
+            expect(project).not.toHaveProperty("tools");
+            expect(diagnostics.map(d => d.field)).toEqual(["tags", "tools"]);
+        });
+
+        it("removes a span that isn't made of positive whole numbers", () => {
+            const { project, diagnostics } = validateOne({ ...valid, span: { columns: 0, rows: 2 } });
+            expect(project).not.toHaveProperty("span");
+            expect(diagnostics).toMatchObject([{ field: "span", severity: "warning" }]);
+        });
+
+        it("removes media entries without a usable src, and media that isn't a list", () => {
+            const removed = validateOne({ ...valid, media: [{ type: "video" }, "javascript:alert(1)", "/still.jpg"] });
+            expect(removed.project?.media).toEqual([{ type: "image", src: "/still.jpg" }]);
+            expect(removed.diagnostics).toMatchObject([{ field: "media", severity: "warning" }]);
+
+            const invalid = validateOne({ ...valid, media: "/still.jpg" });
+            expect(invalid.project).not.toHaveProperty("media");
+            expect(invalid.diagnostics).toMatchObject([{ field: "media", severity: "warning" }]);
+        });
+    });
+});
@@ -0,0 +1,189 @@
+import { Project, ProjectMedia } from "../../types";
+
+/**
+ * @file Validates and normalizes project data before it reaches the grid.
+ * Project data often comes from a CMS or a hand-written JSON file, so it can't be trusted.
+ * Instead of crashing (or silently rendering a broken cell), every project is checked here:
+ * - Values that can be fixed are normalized (e.g. a year given as "2024", tags or tools as "a, b").
+ * - Optional values that are broken are dropped and reported as a "warning".
+ * - Projects missing something the grid can't do without (a title or an image) are
+ *   left out and reported as an "error".
+ * The grid then renders the valid subset. Leaving projects out shifts the ones after them,
+ * so `sourceIndices` maps every valid project back to its position in the original list.
+ * Indices the grid hands out (events, `onZoomedProjectIndexChange`, the controller) use the original positions.
+ */
+
+export interface ProjectDiagnostic {
+    index: number;                    // The position of the project in the original list
+    title?: string;                   // The project's title, if it has one
+    field: string;                    // The field with the problem
+    severity: "error" | "warning";    // "error" means the project was left out
+    message: string;
+}
+
+export interface ProjectValidationResult {
+    projects: Project[];
+    sourceIndices: number[];          // The position of every valid project in the original list
+    diagnostics: ProjectDiagnostic[];
+}
+
+// Protocols that would run code or embed content when used as a link or media source.
+const UNSAFE_PROTOCOL = /^\s*(javascript|vbscript|data):/i;
+
+// File extensions that are treated as videos when a media entry is given as a plain URL.
+const VIDEO_EXTENSION = /\.(mp4|webm|mov|m4v|ogv)(\?.*)?$/i;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Checks that a value is a usable URL. Data URLs are only allowed for images.
+ */
+const isSafeUrl = (value: string, allowDataImages = false) => {
+    if (allowDataImages && /^\s*data:image\//i.test(value)) return true;
+    return !UNSAFE_PROTOCOL.test(value);
+};
+
+/**
+ * Normalizes one gallery entry. Plain URLs are accepted, with the type guessed from the file extension.
+ * @returns The media item, or null if it can't be displayed.
+ */
+const normalizeMedia = (raw: unknown): ProjectMedia | null => {
+    const item = typeof raw === "string" ? { src: raw } : raw as Record<string, any>;
+    if (!item || !isNonEmptyString(item.src)) return null;
+    const src = item.src.trim();
+    const type = item.type === "image" || item.type === "video" ? item.type : VIDEO_EXTENSION.test(src) ? "video" : "image";
+    return isSafeUrl(src, type === "image") ? { type, src } : null;
+};
+
+/**
+ * Validates a single raw project. Problems are appended to `diagnostics`.
+ * @returns The normalized project, or null if it can't be displayed.
+ */
+const validateProject = (raw: unknown, index: number, diagnostics: ProjectDiagnostic[]): Project | null => {
+    if (!raw || typeof raw !== "object") {
+        diagnostics.push({ index, field: "project", severity: "error", message: "Expected an object." });
+        return null;
+    }
+
+    const item = raw as Record<string, any>;
+    const title = typeof item.title === "number" ? String(item.title) : item.title;
+    const report = (field: string, severity: ProjectDiagnostic["severity"], message: string) => {
+        diagnostics.push({ index, title: isNonEmptyString(title) ? title.trim() : undefined, field, severity, message });
+    };
+
+    // --- REQUIRED FIELDS ---
+    let isValid = true;
+    if (!isNonEmptyString(title)) {
+        report("title", "error", "A title is required.");
+        isValid = false;
+    }
+    if (!isNonEmptyString(item.image)) {
+        report("image", "error", "An image URL is required.");
+        isValid = false;
+    } else if (!isSafeUrl(item.image, true)) {
+        report("image", "error", `The image URL "${item.image}" uses an unsupported protocol.`);
+        isValid = false;
+    }
+    if (!isValid) return null;
+
+    const project: Project = { ...item, title: title.trim(), image: item.image.trim(), href: "" } as Project;
+
+    // --- OPTIONAL FIELDS ---
+    const year = typeof item.year === "string" ? Number(item.year.trim()) : item.year;
+    if (item.year === undefined || item.year === null || item.year === "") {
+        delete project.year;
+    } else if (typeof year === "number" && Number.isInteger(year)) {
+        project.year = year;
+    } else {
+        report("year", "warning", `"${item.year}" is not a valid year, so it won't be shown.`);
+        delete project.year;
+    }
+
+    if (!isNonEmptyString(item.href)) {
+        report("href", "warning", "No link was given, so the project can't be opened.");
+    } else if (!isSafeUrl(item.href)) {
+        report("href", "warning", `The link "${item.href}" uses an unsafe protocol and was removed.`);
+    } else {
+        project.href = item.href.trim();
+    }
+
+    if (item.video !== undefined && item.video !== null && item.video !== "") {
+        if (!isNonEmptyString(item.video) || !isSafeUrl(item.video)) {
+            report("video", "warning", "The video URL is invalid and was removed.");
+            delete project.video;
+        } else {
+            project.video = item.video.trim();
+        }
+    } else {
+        delete project.video;
+    }
+
+    (["category", "description", "client", "role"] as const).forEach(field => {
+        if (item[field] === undefined) return;
+        if (isNonEmptyString(item[field])) {
+            project[field] = item[field].trim();
+        } else {
+            report(field, "warning", `The ${field} must be a non-empty string and was removed.`);
+            delete project[field];
+        }
+    });
+
+    (["tags", "tools"] as const).forEach(field => {
+        const value = item[field];
+        if (typeof value === "string") {
+            project[field] = value.split(",").map((entry: string) => entry.trim()).filter(Boolean);
+        } else if (Array.isArray(value)) {
+            project[field] = value.filter(isNonEmptyString).map((entry: string) => entry.trim());
+            if (project[field]!.length !== value.length) report(field, "warning", `Entries in ${field} that aren't strings were removed.`);
+        } else if (value !== undefined) {
+            report(field, "warning", `The ${field} must be a list of strings and were removed.`);
+            delete project[field];
+        }
+    });
+
+    if (item.span !== undefined) {
+        const columns = Number(item.span?.columns ?? 1);
+        const rows = Number(item.span?.rows ?? 1);
+        if (Number.isInteger(columns) && Number.isInteger(rows) && columns > 0 && rows > 0) {
+            project.span = { columns, rows };
+        } else {
+            report("span", "warning", "The span must have positive whole numbers for columns and rows, and was removed.");
+            delete project.span;
+        }
+    }
+
+    if (Array.isArray(item.media)) {
+        project.media = item.media.map(normalizeMedia).filter((media): media is ProjectMedia => media !== null);
+        if (project.media.length !== item.media.length) report("media", "warning", "Media entries without a valid src were removed.");
+    } else if (item.media !== undefined) {
+        report("media", "warning", "The media must be a list and was removed.");
+        delete project.media;
+    }
+
+    return project;
+};
+
+/**
+ * Validates and normalizes a list of projects.
+ * @param projects - The raw project data, e.g. straight from a JSON feed.
+ * @returns The projects that can be displayed, and a diagnostic for every problem found.
+ */
+export const validateProjects = (projects: unknown): ProjectValidationResult => {
+    const diagnostics: ProjectDiagnostic[] = [];
+    if (!Array.isArray(projects)) {
+        if (projects !== undefined && projects !== null) {
+            diagnostics.push({ index: -1, field: "projects", severity: "error", message: "Expected a list of projects." });
+        }
+        return { projects: [], sourceIndices: [], diagnostics };
+    }
+
+    const valid: Project[] = [];
+    const sourceIndices: number[] = [];
+    projects.forEach((raw, index) => {
+        const project = validateProject(raw, index, diagnostics);
+        if (!project) return;
+        valid.push(project);
+        sourceIndices.push(index);
+    });
+    return { projects: valid, sourceIndices, diagnostics };
+};
@@ -7,6 +7,19 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2024,
         href: "https://example.com/project/motion-study",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/Sintel.mp4",
+        category: "motion",
+        tags: ["motion", "film"],
+        span: { columns: 2, rows: 2 },
+        description: "A short film exploring how light and movement carry a story without dialogue.",
+        client: "Blender Institute",
+        role: "Motion direction",
+        tools: ["Blender", "After Effects"],
+        media: [
+            { type: "image", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/images/TearsOfSteel.jpg" },
+            { type: "image", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/images/ElephantsDream.jpg" },
+            { type: "image", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/images/BigBuckBunny.jpg" },
+            { type: "video", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/TearsOfSteel.mp4" },
+        ],
     },
     {
         title: "Idle Form",
@@ -14,6 +27,18 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2023,
         href: "https://example.com/project/idle-form",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/WhatCarCanYouGetForAGrand.mp4",
+        category: "branding",
+        tags: ["branding", "identity"],
+        description: "A visual identity for an automotive marketplace, built around a flexible wordmark.",
+        client: "Grand Motors",
+        role: "Brand design",
+        tools: ["Figma", "Illustrator"],
+        media: [
+            { type: "image", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/images/SubaruOutbackOnStreetAndDirt.jpg" },
+            { type: "image", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/images/VolkswagenGTIReview.jpg" },
+            { type: "image", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/images/WeAreGoingOnBullrun.jpg" },
+            { type: "video", src: "https://storage.googleapis.com/gtv-videos-bucket/sample/SubaruOutbackOnStreetAndDirt.mp4" },
+        ],
     },
     {
         title: "Blur Signal",
@@ -21,6 +46,12 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2024,
         href: "https://example.com/project/blur-signal",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerMeltdowns.mp4",
+        category: "motion",
+        tags: ["motion", "vfx"],
+        description: "A series of VFX-driven promos that blur the line between product shot and spectacle.",
+        client: "Signal Studio",
+        role: "VFX lead",
+        tools: ["Houdini", "Nuke"],
     },
      {
         title: "Data Weave",
@@ -28,6 +59,12 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2022,
         href: "https://example.com/project/data-weave",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/TearsOfSteel.mp4",
+        category: "product",
+        tags: ["product", "data"],
+        description: "An analytics dashboard that turns raw event streams into readable, living charts.",
+        client: "Weave Analytics",
+        role: "Product design",
+        tools: ["Figma", "D3"],
     },
     {
         title: "Future Echo",
@@ -35,6 +72,12 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2023,
         href: "https://example.com/project/future-echo",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/ElephantsDream.mp4",
+        category: "branding",
+        tags: ["branding", "film"],
+        description: "A campaign site for a music festival, with audio-reactive visuals.",
+        client: "Echo Festival",
+        role: "Creative development",
+        tools: ["Three.js", "Web Audio"],
     },
     {
         title: "Kinetic UI",
@@ -42,6 +85,12 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2024,
         href: "https://example.com/project/kinetic-ui",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4",
+        category: "product",
+        tags: ["product", "motion"],
+        description: "A motion system for a banking app, defining how every screen enters and leaves.",
+        client: "Kinetic Bank",
+        role: "Motion design",
+        tools: ["Framer", "Lottie"],
     },
     {
         title: "Glass Shift",
@@ -49,6 +98,12 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2023,
         href: "https://example.com/project/glass-shift",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerEscapes.mp4",
+        category: "branding",
+        tags: ["branding", "vfx"],
+        description: "A packaging and identity refresh for a glassware brand.",
+        client: "Shift & Co.",
+        role: "Art direction",
+        tools: ["Photoshop", "Cinema 4D"],
     },
     {
         title: "Quantum Leap",
@@ -56,6 +111,12 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2024,
         href: "https://example.com/project/quantum-leap",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4",
+        category: "product",
+        tags: ["product", "data"],
+        description: "An onboarding flow for a developer platform that cut setup time in half.",
+        client: "Quantum Labs",
+        role: "Product design",
+        tools: ["Figma", "React"],
     },
     {
         title: "Chroma Flow",
@@ -63,5 +124,11 @@ export const DEFAULT_PROJECTS: Project[] = [
         year: 2022,
         href: "https://example.com/project/chroma-flow",
         video: "https://storage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4",
+        category: "motion",
+        tags: ["motion", "identity"],
+        description: "A generative color tool for designers, exploring palettes through motion.",
+        client: "Self-initiated",
+        role: "Design & development",
+        tools: ["WebGL", "TypeScript"],
     },
 ];
\ No newline at end of file
@@ -1,7 +1,24 @@
+export interface ProjectMedia {
+    type: "image" | "video";
+    src: string;
+}
+
 export interface Project {
     title: string;
     image: string;
-    year: number;
+    year?: number;
     href: string;
     video?: string;
+    // Used by the `activeFilter` prop to narrow the grid down.
+    category?: string;
+    tags?: string[];
+    // Makes a featured project occupy a block of cells, e.g. { columns: 2, rows: 2 }.
+    span?: { columns: number; rows: number };
+    // Case study details shown next to the image when the project is zoomed.
+    description?: string;
+    client?: string;
+    role?: string;
+    tools?: string[];
+    // Extra stills and videos that can be browsed while the project is zoomed.
+    media?: ProjectMedia[];
 }
\ No newline at end of file